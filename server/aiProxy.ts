@@ -0,0 +1,266 @@
+import { IncomingMessage, ServerResponse } from "node:http";
+import {
+  isAITask,
+  PROXY_BASE_PATH,
+  ProxyErrorResponse,
+  ProxyRequest,
+  ProxyResponse,
+} from "../src/utils/aiProviders/proxyProtocol";
+import {
+  buildTaskPrompt,
+  parseTaskInput,
+  PREVIOUS_ERROR_CHARS,
+} from "../src/utils/aiProviders/tasks";
+import {
+  AIProvider,
+  AITask,
+  AITaskRequest,
+  TokenUsage,
+} from "../src/utils/aiProviders/types";
+import { createRateLimiter, RateLimit } from "./rateLimiter";
+
+// One line per request, written by the usage log
+export interface UsageRecord {
+  time: string;
+  client: string;
+  task: AITask | null;
+  status: number;
+  requestBytes: number;
+  responseChars: number;
+  inputTokens?: number;
+  outputTokens?: number;
+  durationMs: number;
+  error?: string;
+}
+
+export interface AIProxyOptions {
+  // The real model, or a stub when testing
+  model: AIProvider;
+  rateLimit?: RateLimit;
+  // Largest accepted request body in bytes, per task
+  maxBodyBytes?: Partial<Record<AITask, number>>;
+  // Identify clients by X-Forwarded-For, when running behind a reverse proxy
+  trustProxy?: boolean;
+  log?: (record: UsageRecord) => void;
+}
+
+export const DEFAULT_RATE_LIMIT: RateLimit = { requests: 60, windowMs: 60_000 };
+
+// Room for each task's largest input; fields are checked against their
+// own limits once parsed
+export const DEFAULT_BODY_LIMITS: Record<AITask, number> = {
+  "bank-detection": 16 * 1024,
+  "column-inference": 4 * 1024,
+  categorization: 64 * 1024,
+  "category-feedback": 4 * 1024,
+  "statement-extraction": 64 * 1024,
+  "merchant-extraction": 32 * 1024,
+};
+
+class HttpError extends Error {
+  status: number;
+  headers: Record<string, string>;
+
+  constructor(
+    status: number,
+    message: string,
+    headers: Record<string, string> = {}
+  ) {
+    super(message);
+    this.name = "HttpError";
+    this.status = status;
+    this.headers = headers;
+  }
+}
+
+function clientAddress(req: IncomingMessage, trustProxy: boolean): string {
+  const forwarded = req.headers["x-forwarded-for"];
+  if (trustProxy && typeof forwarded === "string" && forwarded.trim()) {
+    return forwarded.split(",")[0].trim();
+  }
+  return req.socket.remoteAddress || "unknown";
+}
+
+async function readBody(req: IncomingMessage, limit: number): Promise<string> {
+  if (Number(req.headers["content-length"]) > limit) {
+    throw new HttpError(413, `Request body exceeds ${limit} bytes`);
+  }
+
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > limit) {
+      throw new HttpError(413, `Request body exceeds ${limit} bytes`);
+    }
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks).toString("utf8");
+}
+
+// Only the task input is accepted; the prompt and schema are built here
+function parseRequest(task: AITask, body: string): AITaskRequest {
+  let value: unknown;
+  try {
+    value = JSON.parse(body);
+  } catch {
+    throw new HttpError(400, "Request body is not valid JSON");
+  }
+
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    throw new HttpError(400, "Request body must be an object");
+  }
+  const request = value as Partial<ProxyRequest>;
+  const unknown = Object.keys(request).find(
+    (key) => key !== "input" && key !== "previousError"
+  );
+  if (unknown) throw new HttpError(400, `Unknown field ${unknown}`);
+  const { previousError } = request;
+  if (
+    previousError !== undefined &&
+    (typeof previousError !== "string" ||
+      previousError.length > PREVIOUS_ERROR_CHARS)
+  ) {
+    throw new HttpError(
+      400,
+      `previousError must be a string of at most ${PREVIOUS_ERROR_CHARS} characters`
+    );
+  }
+
+  try {
+    return {
+      task,
+      input: parseTaskInput(task, request.input),
+      previousError,
+    } as AITaskRequest;
+  } catch (error) {
+    throw new HttpError(
+      400,
+      error instanceof Error ? error.message : "Invalid input"
+    );
+  }
+}
+
+function send(
+  res: ServerResponse,
+  status: number,
+  body: ProxyResponse | ProxyErrorResponse,
+  headers: Record<string, string> = {}
+): void {
+  res.writeHead(status, { "Content-Type": "application/json", ...headers });
+  res.end(JSON.stringify(body));
+}
+
+// Request handler for POST /api/ai/:task. The model's key never leaves
+// the server and the prompt is built here from the task input; clients
+// are limited by address and request size, and every request is logged
+// without its content.
+export function createAIProxy({
+  model,
+  rateLimit = DEFAULT_RATE_LIMIT,
+  maxBodyBytes = {},
+  trustProxy = false,
+  log = (record) => console.log(JSON.stringify(record)),
+}: AIProxyOptions): (req: IncomingMessage, res: ServerResponse) => void {
+  const limiter = createRateLimiter(rateLimit);
+  const limits = { ...DEFAULT_BODY_LIMITS, ...maxBodyBytes };
+
+  return async (req, res) => {
+    const started = Date.now();
+    const client = clientAddress(req, trustProxy);
+    const path = (req.url || "").split("?")[0];
+    const taskName = path.startsWith(`${PROXY_BASE_PATH}/`)
+      ? path.slice(PROXY_BASE_PATH.length + 1)
+      : "";
+    const task = isAITask(taskName) ? taskName : null;
+    let requestBytes = 0;
+    let responseChars = 0;
+
+    // Stop generating when the browser gives up on the request
+    const controller = new AbortController();
+    res.on("close", () => {
+      if (!res.writableFinished) controller.abort();
+    });
+
+    try {
+      if (!task) throw new HttpError(404, "Unknown AI task");
+      if (req.method !== "POST") {
+        throw new HttpError(405, "Use POST", { Allow: "POST" });
+      }
+
+      const retryAfter = limiter.take(client);
+      if (retryAfter > 0) {
+        throw new HttpError(429, "Too many AI requests", {
+          "Retry-After": String(Math.ceil(retryAfter / 1000)),
+        });
+      }
+
+      const body = await readBody(req, limits[task]);
+      requestBytes = Buffer.byteLength(body);
+      const { prompt, responseSchema } = buildTaskPrompt(
+        parseRequest(task, body)
+      );
+
+      let text: string;
+      let usage: TokenUsage | undefined;
+      try {
+        text = await model.generate(prompt, {
+          responseSchema,
+          signal: controller.signal,
+          onUsage: (tokens) => {
+            usage = tokens;
+          },
+        });
+      } catch (error) {
+        // The model's own rate limit is passed on so the browser backs off
+        const status =
+          error instanceof Error && "status" in error
+            ? error.status
+            : undefined;
+        throw new HttpError(
+          status === 429 ? 429 : 502,
+          error instanceof Error ? error.message : "Model request failed"
+        );
+      }
+
+      responseChars = text.length;
+      send(res, 200, { text, usage });
+      log({
+        time: new Date(started).toISOString(),
+        client,
+        task,
+        status: 200,
+        requestBytes,
+        responseChars,
+        ...usage,
+        durationMs: Date.now() - started,
+      });
+    } catch (error) {
+      const status = error instanceof HttpError ? error.status : 500;
+      const message =
+        error instanceof HttpError ? error.message : "Internal server error";
+      if (!res.headersSent) {
+        send(
+          res,
+          status,
+          { error: message },
+          {
+            ...(error instanceof HttpError ? error.headers : {}),
+            // Unread request bodies are not worth draining
+            ...(status === 413 ? { Connection: "close" } : {}),
+          }
+        );
+      }
+      log({
+        time: new Date(started).toISOString(),
+        client,
+        task,
+        status,
+        requestBytes,
+        responseChars,
+        durationMs: Date.now() - started,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  };
+}
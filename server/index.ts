@@ -0,0 +1,54 @@
+import { readFileSync } from "node:fs";
+import { createServer } from "node:http";
+import { MockResponse } from "../src/utils/aiProviders/mock";
+import { AIProvider } from "../src/utils/aiProviders/types";
+import { createAIProxy, DEFAULT_RATE_LIMIT } from "./aiProxy";
+import { createGeminiModel, createStubModel } from "./models";
+
+// Configuration comes from the environment:
+//   GEMINI_API_KEY   required unless AI_MODEL=stub
+//   GEMINI_MODEL     model name, defaults to DEFAULT_GEMINI_MODEL
+//   AI_MODEL=stub    answer from the local stub instead of Gemini
+//   STUB_RESPONSES   JSON file of { match, response } entries for the stub
+//   AI_RATE_LIMIT    requests per client per minute
+//   TRUST_PROXY=true read client addresses from X-Forwarded-For
+//   PORT             defaults to 8787
+const env = process.env;
+
+function loadStubResponses(path: string | undefined): MockResponse[] {
+  if (!path) return [];
+  const entries: Array<{ match: string; response: unknown }> = JSON.parse(
+    readFileSync(path, "utf8")
+  );
+  return entries.map(({ match, response }) => ({
+    match,
+    response:
+      typeof response === "string" ? response : JSON.stringify(response),
+  }));
+}
+
+function createModel(): AIProvider {
+  if (env.AI_MODEL === "stub") {
+    return createStubModel(loadStubResponses(env.STUB_RESPONSES));
+  }
+  if (!env.GEMINI_API_KEY) {
+    throw new Error("GEMINI_API_KEY is not set; use AI_MODEL=stub to test");
+  }
+  return createGeminiModel(env.GEMINI_API_KEY, env.GEMINI_MODEL || undefined);
+}
+
+const model = createModel();
+const port = Number(env.PORT) || 8787;
+
+createServer(
+  createAIProxy({
+    model,
+    rateLimit: {
+      ...DEFAULT_RATE_LIMIT,
+      requests: Number(env.AI_RATE_LIMIT) || DEFAULT_RATE_LIMIT.requests,
+    },
+    trustProxy: env.TRUST_PROXY === "true",
+  })
+).listen(port, () => {
+  console.log(`AI proxy for ${model.name} listening on port ${port}`);
+});
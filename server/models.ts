@@ -0,0 +1,87 @@
+import { GoogleGenAI } from "@google/genai";
+import { MockResponse } from "../src/utils/aiProviders/mock";
+import { AIProvider, JsonSchema } from "../src/utils/aiProviders/types";
+
+export const DEFAULT_GEMINI_MODEL = "gemini-2.0-flash-001";
+
+export function createGeminiModel(
+  apiKey: string,
+  model: string = DEFAULT_GEMINI_MODEL
+): AIProvider {
+  const ai = new GoogleGenAI({ apiKey });
+
+  return {
+    id: "gemini",
+    name: `Google Gemini (${model})`,
+    async generate(prompt, options = {}) {
+      const response = await ai.models.generateContent({
+        model,
+        contents: prompt,
+        config: {
+          abortSignal: options.signal,
+          ...(options.responseSchema
+            ? {
+                responseMimeType: "application/json",
+                responseJsonSchema: options.responseSchema,
+              }
+            : {}),
+        },
+      });
+      if (response.usageMetadata) {
+        options.onUsage?.({
+          inputTokens: response.usageMetadata.promptTokenCount || 0,
+          outputTokens: response.usageMetadata.candidatesTokenCount || 0,
+        });
+      }
+      const content = response.text;
+
+      if (!content) {
+        throw new Error("No response from AI API");
+      }
+      return content;
+    },
+  };
+}
+
+// The smallest value that satisfies a schema: empty arrays, the first
+// enum value, required properties only
+function stubValue(schema: JsonSchema): unknown {
+  switch (schema.type) {
+    case "object":
+      return Object.fromEntries(
+        (schema.required || []).map((key) => [
+          key,
+          schema.properties?.[key] ? stubValue(schema.properties[key]) : null,
+        ])
+      );
+    case "array":
+      return [];
+    case "string":
+      return schema.enum?.[0] ?? "stub";
+    case "number":
+    case "integer":
+      return schema.minimum ?? 0;
+    case "boolean":
+      return false;
+  }
+}
+
+// Local stand-in for the real model, so the server can run without a key.
+// Prompts matching `responses` get the canned reply; anything else gets a
+// schema-valid placeholder, or plain text when no schema was given.
+export function createStubModel(responses: MockResponse[] = []): AIProvider {
+  return {
+    id: "stub",
+    name: "Stub model",
+    async generate(prompt, options = {}) {
+      options.signal?.throwIfAborted();
+      const entry = responses.find(({ match }) =>
+        typeof match === "string" ? prompt.includes(match) : match.test(prompt)
+      );
+      if (entry) return entry.response;
+      return options.responseSchema
+        ? JSON.stringify(stubValue(options.responseSchema))
+        : "Stub Bank";
+    },
+  };
+}
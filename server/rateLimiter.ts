@@ -0,0 +1,35 @@
+export interface RateLimit {
+  requests: number;
+  windowMs: number;
+}
+
+export interface RateLimiter {
+  // Count a request from `client`; resolves to 0 when it is allowed, or
+  // the milliseconds until the client may try again
+  take(client: string, now?: number): number;
+}
+
+// Fixed window per client. Expired windows are dropped as requests come
+// in, so idle clients do not accumulate.
+export function createRateLimiter({
+  requests,
+  windowMs,
+}: RateLimit): RateLimiter {
+  const windows = new Map<string, { start: number; count: number }>();
+
+  return {
+    take(client, now = Date.now()) {
+      for (const [key, window] of windows) {
+        if (now - window.start >= windowMs) windows.delete(key);
+      }
+
+      const window = windows.get(client) || { start: now, count: 0 };
+      if (window.count >= requests) {
+        return window.start + windowMs - now;
+      }
+      window.count++;
+      windows.set(client, window);
+      return 0;
+    },
+  };
+}
@@ -3,7 +3,13 @@ import { FileUpload } from "./components/FileUpload";
 import { ProcessingStatus } from "./components/ProcessingStatus";
 import { DataPreview } from "./components/DataPreview";
 import { ExportOptions } from "./components/ExportOptions";
+import { AIProviderSettings } from "./components/AIProviderSettings";
+import { AIRequestReview } from "./components/AIRequestReview";
+import { CategoryRules } from "./components/CategoryRules";
+import { CategoryTaxonomyEditor } from "./components/CategoryTaxonomyEditor";
 import { useFileProcessor } from "./hooks/useFileProcessor";
+import { useCategoryRules } from "./hooks/useCategoryRules";
+import { useAIUsage } from "./hooks/useAIUsage";
 import {
   Building2,
   Shield,
@@ -20,19 +26,34 @@ function App() {
     uploadedFiles,
     setUploadedFiles,
     processingSteps,
-    bankData,
+    statements,
+    extractionMode,
+    setExtractionMode,
+    merchantAI,
+    setMerchantAI,
     isProcessing,
     isComplete,
     error,
+    exportNotice,
     processFiles,
-    downloadExcel,
+    cancelProcessing,
+    downloadExport,
+    applyRules,
+    unlockFile,
     resetProcessor,
   } = useFileProcessor();
+  const categoryRules = useCategoryRules(applyRules);
+  const aiUsage = useAIUsage();
+
+  const hasStatements = Object.keys(statements).length > 0;
+  const hasPendingFiles = uploadedFiles.some(
+    (f) => f.status === "ready" || f.status === "error"
+  );
 
   const handleExport = (
     options: import("./utils/excelExporter").ExportOptions
   ) => {
-    downloadExcel(options);
+    downloadExport(options);
   };
 
   return (
@@ -120,9 +141,10 @@ function App() {
               <FileUpload
                 onFilesUploaded={setUploadedFiles}
                 uploadedFiles={uploadedFiles}
+                onUnlock={unlockFile}
               />
 
-              {uploadedFiles.length > 0 && !isProcessing && !isComplete && (
+              {hasPendingFiles && !isProcessing && (
                 <div className="mt-6 pt-6 border-t border-gray-200">
                   <button
                     onClick={processFiles}
@@ -158,20 +180,55 @@ function App() {
             {(isProcessing || isComplete) && (
               <ProcessingStatus
                 steps={processingSteps}
-                onDownload={downloadExcel}
+                onDownload={() => downloadExport()}
                 isComplete={isComplete}
+                onCancel={isProcessing ? cancelProcessing : undefined}
+                aiUsage={aiUsage}
+                validations={Object.values(statements).flatMap((s) =>
+                  s.validation
+                    ? [{ fileName: s.sourceFile || s.bankName, report: s.validation }]
+                    : []
+                )}
               />
             )}
 
-            {isComplete && bankData && <DataPreview bankData={bankData} />}
+            {isComplete && hasStatements && (
+              <DataPreview
+                statements={statements}
+                onCategoryChange={categoryRules.correctCategory}
+              />
+            )}
           </div>
 
           {/* Right Column - Export Options */}
           <div className="space-y-6">
             {isComplete && (
-              <ExportOptions onExport={handleExport} isDisabled={!bankData} />
+              <ExportOptions
+                onExport={handleExport}
+                isDisabled={!hasStatements}
+                notice={exportNotice}
+              />
             )}
 
+            <AIProviderSettings
+              isDisabled={isProcessing}
+              extractionMode={extractionMode}
+              onExtractionModeChange={setExtractionMode}
+              merchantAI={merchantAI}
+              onMerchantAIChange={setMerchantAI}
+            />
+
+            <CategoryRules
+              rules={categoryRules.rules}
+              error={categoryRules.error}
+              onSave={categoryRules.saveRule}
+              onDelete={categoryRules.deleteRule}
+              onImport={categoryRules.importRules}
+              onExport={categoryRules.exportRules}
+            />
+
+            <CategoryTaxonomyEditor isDisabled={isProcessing} />
+
             {/* Features */}
             <div className="bg-white/80 backdrop-blur-xl rounded-2xl  p-6  transition-all duration-300">
               <h3 className="text-lg font-semibold text-gray-900 mb-4">
@@ -284,6 +341,8 @@ function App() {
           </div>
         </div>
       </main>
+
+      <AIRequestReview />
     </div>
   );
 }
@@ -0,0 +1,263 @@
+import React, { useState } from 'react';
+import { Cpu, WifiOff, CheckSquare, Square } from 'lucide-react';
+import {
+  AIProviderConfig,
+  AISchedulerSettings,
+  getAIProviderConfig,
+  getAISchedulerSettings,
+  isRequestReviewEnabled,
+  PROXY_BASE_PATH,
+  resetAIUsage,
+  setAIProvider,
+  setAISchedulerSettings,
+  setRequestReviewEnabled
+} from '../utils/aiProviders';
+import { ParseOptions } from '../utils/pdfParser';
+
+interface AIProviderSettingsProps {
+  isDisabled?: boolean;
+  extractionMode: ParseOptions['extractionMode'];
+  onExtractionModeChange: (mode: ParseOptions['extractionMode']) => void;
+  merchantAI: boolean;
+  onMerchantAIChange: (enabled: boolean) => void;
+}
+
+// Blank budget fields mean no limit
+const parseLimit = (value: string) => (value.trim() === '' ? undefined : Math.max(0, Math.floor(Number(value))));
+
+const inputClassName = 'w-full px-4 py-3 border border-gray-300 rounded-xl focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-all duration-200 bg-white/80 backdrop-blur-xl';
+
+export const AIProviderSettings: React.FC<AIProviderSettingsProps> = ({
+  isDisabled = false,
+  extractionMode,
+  onExtractionModeChange,
+  merchantAI,
+  onMerchantAIChange
+}) => {
+  const [config, setConfig] = useState<AIProviderConfig>(getAIProviderConfig);
+  const [reviewRequests, setReviewRequests] = useState(isRequestReviewEnabled);
+  const [scheduler, setScheduler] = useState<AISchedulerSettings>(getAISchedulerSettings);
+
+  const updateConfig = (next: AIProviderConfig) => {
+    setConfig(next);
+    setAIProvider(next);
+  };
+
+  const updateScheduler = (changes: Partial<AISchedulerSettings>) => {
+    const next = { ...scheduler, ...changes };
+    setScheduler(next);
+    setAISchedulerSettings(next);
+  };
+
+  const toggleReviewRequests = () => {
+    setReviewRequests(!reviewRequests);
+    setRequestReviewEnabled(!reviewRequests);
+  };
+
+  const selectType = (type: AIProviderConfig['type']) => {
+    switch (type) {
+      case 'server':
+        updateConfig({ type });
+        break;
+      case 'openai-compatible':
+        updateConfig({ type, baseUrl: 'http://localhost:11434/v1', model: 'llama3.1' });
+        break;
+      case 'offline':
+        updateConfig({ type });
+        break;
+    }
+  };
+
+  return (
+    <div className="bg-white/80 backdrop-blur-xl rounded-2xl border border-white/20 shadow-xl p-6 hover:shadow-2xl transition-all duration-300">
+      <div className="flex items-center space-x-2 mb-6">
+        <div className="w-6 h-6 bg-gradient-to-br from-indigo-500 to-purple-500 rounded-lg flex items-center justify-center">
+          <Cpu className="w-4 h-4 text-white" />
+        </div>
+        <h3 className="text-xl font-bold text-gray-900">AI Model</h3>
+      </div>
+
+      <div className="space-y-4">
+        <select
+          value={config.type}
+          disabled={isDisabled}
+          onChange={(e) => selectType(e.target.value as AIProviderConfig['type'])}
+          className={inputClassName}
+        >
+          <option value="server">Google Gemini (via app server)</option>
+          <option value="openai-compatible">Self-hosted (OpenAI-compatible)</option>
+          <option value="offline">Offline (no AI)</option>
+        </select>
+
+        {config.type === 'server' && (
+          <input
+            type="text"
+            value={config.baseUrl || ''}
+            disabled={isDisabled}
+            onChange={(e) => updateConfig({ ...config, baseUrl: e.target.value || undefined })}
+            placeholder={PROXY_BASE_PATH}
+            className={inputClassName}
+          />
+        )}
+
+        {config.type === 'openai-compatible' && (
+          <>
+            <input
+              type="url"
+              value={config.baseUrl}
+              disabled={isDisabled}
+              onChange={(e) => updateConfig({ ...config, baseUrl: e.target.value })}
+              placeholder="http://localhost:11434/v1"
+              className={inputClassName}
+            />
+            <input
+              type="text"
+              value={config.model}
+              disabled={isDisabled}
+              onChange={(e) => updateConfig({ ...config, model: e.target.value })}
+              placeholder="Model name"
+              className={inputClassName}
+            />
+            <input
+              type="password"
+              autoComplete="off"
+              value={config.apiKey || ''}
+              disabled={isDisabled}
+              onChange={(e) => updateConfig({ ...config, apiKey: e.target.value || undefined })}
+              placeholder="API key (optional)"
+              className={inputClassName}
+            />
+          </>
+        )}
+
+        {config.type !== 'offline' && (
+          <label className="flex items-start space-x-3 cursor-pointer">
+            <button
+              disabled={isDisabled}
+              onClick={() => onExtractionModeChange(extractionMode === 'ai-cross-check' ? 'rules' : 'ai-cross-check')}
+              className="flex-shrink-0 mt-0.5 transition-transform duration-200 hover:scale-110"
+            >
+              {extractionMode === 'ai-cross-check' ? (
+                <CheckSquare className="w-5 h-5 text-indigo-600" />
+              ) : (
+                <Square className="w-5 h-5 text-gray-400" />
+              )}
+            </button>
+            <span className="text-sm text-gray-700">
+              Cross-check with full AI extraction
+              <span className="block text-xs text-gray-500">
+                Sends the whole statement to the model and compares its rows with the parser's. Slower.
+              </span>
+            </span>
+          </label>
+        )}
+
+        {config.type !== 'offline' && (
+          <label className="flex items-start space-x-3 cursor-pointer">
+            <button
+              disabled={isDisabled}
+              onClick={() => onMerchantAIChange(!merchantAI)}
+              className="flex-shrink-0 mt-0.5 transition-transform duration-200 hover:scale-110"
+            >
+              {merchantAI ? (
+                <CheckSquare className="w-5 h-5 text-indigo-600" />
+              ) : (
+                <Square className="w-5 h-5 text-gray-400" />
+              )}
+            </button>
+            <span className="text-sm text-gray-700">
+              Identify merchants with AI
+              <span className="block text-xs text-gray-500">
+                For descriptions the built-in merchant rules cannot read.
+              </span>
+            </span>
+          </label>
+        )}
+
+        {config.type !== 'offline' && (
+          <label className="flex items-start space-x-3 cursor-pointer">
+            <button
+              onClick={toggleReviewRequests}
+              className="flex-shrink-0 mt-0.5 transition-transform duration-200 hover:scale-110"
+            >
+              {reviewRequests ? (
+                <CheckSquare className="w-5 h-5 text-indigo-600" />
+              ) : (
+                <Square className="w-5 h-5 text-gray-400" />
+              )}
+            </button>
+            <span className="text-sm text-gray-700">
+              Review requests before sending
+              <span className="block text-xs text-gray-500">
+                Account numbers, card numbers, contact details and names are always masked. Shows each request
+                so you can approve it.
+              </span>
+            </span>
+          </label>
+        )}
+
+        {config.type !== 'offline' && (
+          <div className="space-y-2">
+            <div className="grid grid-cols-3 gap-2">
+              <label className="text-xs text-gray-600">
+                Parallel requests
+                <input
+                  type="number"
+                  min={1}
+                  value={scheduler.concurrency}
+                  disabled={isDisabled}
+                  onChange={(e) => updateScheduler({ concurrency: parseLimit(e.target.value) || 1 })}
+                  className={`${inputClassName} mt-1`}
+                />
+              </label>
+              <label className="text-xs text-gray-600">
+                Request budget
+                <input
+                  type="number"
+                  min={0}
+                  value={scheduler.maxRequests ?? ''}
+                  disabled={isDisabled}
+                  onChange={(e) => updateScheduler({ maxRequests: parseLimit(e.target.value) })}
+                  placeholder="No limit"
+                  className={`${inputClassName} mt-1`}
+                />
+              </label>
+              <label className="text-xs text-gray-600">
+                Token budget
+                <input
+                  type="number"
+                  min={0}
+                  value={scheduler.maxTokens ?? ''}
+                  disabled={isDisabled}
+                  onChange={(e) => updateScheduler({ maxTokens: parseLimit(e.target.value) })}
+                  placeholder="No limit"
+                  className={`${inputClassName} mt-1`}
+                />
+              </label>
+            </div>
+            <p className="text-xs text-gray-500">
+              Once a budget is reached, the rest of the session uses built-in rules.{' '}
+              <button
+                onClick={resetAIUsage}
+                disabled={isDisabled}
+                className="font-medium text-indigo-600 hover:text-indigo-700"
+              >
+                Reset usage
+              </button>
+            </p>
+          </div>
+        )}
+
+        {config.type === 'offline' && (
+          <div className="flex items-start space-x-2 p-3 rounded-xl bg-gray-50 text-gray-700 text-sm">
+            <WifiOff className="w-4 h-4 mt-0.5 flex-shrink-0" />
+            <span>
+              Statements never leave this device. Banks are detected from known formats and
+              transactions are categorized with built-in rules.
+            </span>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
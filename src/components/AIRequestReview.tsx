@@ -0,0 +1,126 @@
+import React, { useEffect, useState } from 'react';
+import { Eye, Send, X } from 'lucide-react';
+import {
+  AIRequestPreview,
+  PIIKind,
+  setRequestReviewEnabled,
+  setRequestReviewer
+} from '../utils/aiProviders';
+
+interface PendingRequest {
+  preview: AIRequestPreview;
+  resolve: (approved: boolean) => void;
+}
+
+const kindLabels: Record<PIIKind, string> = {
+  iban: 'IBAN',
+  card: 'Card number',
+  account: 'Account number',
+  email: 'Email',
+  phone: 'Phone number',
+  address: 'Address',
+  name: 'Account holder'
+};
+
+// Highlight placeholders so reviewers can see what was masked
+const renderRedacted = (text: string) =>
+  text.split(/(\[[A-Z]+_\d+\])/).map((part, index) =>
+    /^\[[A-Z]+_\d+\]$/.test(part) ? (
+      <mark key={index} className="bg-indigo-100 text-indigo-800 rounded px-0.5">{part}</mark>
+    ) : (
+      <React.Fragment key={index}>{part}</React.Fragment>
+    )
+  );
+
+export const AIRequestReview: React.FC = () => {
+  const [queue, setQueue] = useState<PendingRequest[]>([]);
+
+  useEffect(() => {
+    setRequestReviewer(preview => new Promise<boolean>(resolve => {
+      const pending: PendingRequest = { preview, resolve };
+      setQueue(prev => [...prev, pending]);
+
+      // Requests of a cancelled run are dropped without sending
+      preview.signal?.addEventListener('abort', () => {
+        setQueue(prev => prev.filter(p => p !== pending));
+        resolve(false);
+      });
+    }));
+    return () => setRequestReviewer(null);
+  }, []);
+
+  const current = queue[0];
+  if (!current) return null;
+
+  const answer = (approved: boolean) => {
+    current.resolve(approved);
+    setQueue(prev => prev.slice(1));
+  };
+
+  const sendAll = () => {
+    setRequestReviewEnabled(false);
+    queue.forEach(pending => pending.resolve(true));
+    setQueue([]);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-gray-900/40 backdrop-blur-sm p-4">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-3xl max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div className="flex items-center space-x-2">
+            <Eye className="w-5 h-5 text-indigo-600" />
+            <h3 className="text-xl font-bold text-gray-900">Review AI Request</h3>
+          </div>
+          <span className="text-sm text-gray-500">
+            To {current.preview.providerName}
+            {queue.length > 1 && ` • ${queue.length - 1} more waiting`}
+          </span>
+        </div>
+
+        <div className="p-6 overflow-y-auto space-y-4">
+          <p className="text-sm text-gray-600">
+            This is exactly what will be sent. Personal details have been replaced with placeholders and are put
+            back into the reply on this device.
+          </p>
+
+          {current.preview.redacted.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {current.preview.redacted.map(({ placeholder, kind }) => (
+                <span key={placeholder} className="px-2 py-1 rounded-full bg-indigo-50 text-indigo-700 text-xs font-medium">
+                  {placeholder}: {kindLabels[kind]}
+                </span>
+              ))}
+            </div>
+          )}
+
+          <pre className="text-xs text-gray-800 bg-gray-50 rounded-xl p-4 whitespace-pre-wrap break-words">
+            {renderRedacted(current.preview.text)}
+          </pre>
+        </div>
+
+        <div className="flex flex-wrap justify-end gap-3 p-6 border-t border-gray-200">
+          <button
+            onClick={() => answer(false)}
+            className="inline-flex items-center px-4 py-2 border border-gray-300 text-gray-700 rounded-xl hover:bg-gray-50 transition-colors"
+          >
+            <X className="w-4 h-4 mr-2" />
+            Don't Send
+          </button>
+          <button
+            onClick={sendAll}
+            className="px-4 py-2 border border-indigo-300 text-indigo-700 rounded-xl hover:bg-indigo-50 transition-colors"
+          >
+            Send All Without Asking
+          </button>
+          <button
+            onClick={() => answer(true)}
+            className="inline-flex items-center px-4 py-2 bg-gradient-to-r from-indigo-500 to-purple-500 text-white font-semibold rounded-xl hover:from-indigo-600 hover:to-purple-600 transition-all duration-200"
+          >
+            <Send className="w-4 h-4 mr-2" />
+            Send
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
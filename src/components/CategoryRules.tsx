@@ -0,0 +1,295 @@
+import React, { useRef, useState } from 'react';
+import { ListFilter, Plus, Upload, Download, Pencil, Trash2, CheckSquare, Square, AlertCircle } from 'lucide-react';
+import { CategoryRule, createCategoryRule } from '../utils/categoryRules';
+import { getTaxonomy } from '../utils/categoryTaxonomy';
+
+interface CategoryRulesProps {
+  rules: CategoryRule[];
+  error?: string | null;
+  onSave: (rule: CategoryRule) => void;
+  onDelete: (id: string) => void;
+  onImport: (json: string) => void;
+  onExport: () => void;
+}
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 bg-white/80';
+
+const describeRule = (rule: CategoryRule) => {
+  const { description, isRegex, minAmount, maxAmount, type } = rule.conditions;
+  const conditions = [
+    description && (isRegex ? `matches /${description}/` : `contains "${description}"`),
+    type && `${type}s`,
+    minAmount !== undefined && `≥ ${minAmount}`,
+    maxAmount !== undefined && `≤ ${maxAmount}`
+  ].filter(Boolean);
+  const actions = [
+    rule.category,
+    rule.tags?.length && `#${rule.tags.join(' #')}`,
+    rule.renameTo && `rename to "${rule.renameTo}"`
+  ].filter(Boolean);
+
+  return `${conditions.join(', ') || 'Every transaction'} → ${actions.join(', ') || 'nothing'}`;
+};
+
+const parseAmount = (value: string) => (value.trim() === '' ? undefined : Number(value));
+
+const RuleEditor: React.FC<{
+  rule: CategoryRule;
+  onSave: (rule: CategoryRule) => void;
+  onCancel: () => void;
+}> = ({ rule, onSave, onCancel }) => {
+  const [draft, setDraft] = useState(rule);
+  const [tags, setTags] = useState((rule.tags || []).join(', '));
+  const { conditions } = draft;
+  const setConditions = (next: Partial<CategoryRule['conditions']>) =>
+    setDraft({ ...draft, conditions: { ...conditions, ...next } });
+
+  let patternError: string | undefined;
+  if (conditions.isRegex && conditions.description) {
+    try {
+      new RegExp(conditions.description);
+    } catch {
+      patternError = 'Not a valid regular expression';
+    }
+  }
+
+  const save = () => {
+    const tagList = tags.split(',').map(tag => tag.trim()).filter(Boolean);
+    onSave({
+      ...draft,
+      category: draft.category?.trim() || undefined,
+      renameTo: draft.renameTo?.trim() || undefined,
+      tags: tagList.length > 0 ? tagList : undefined
+    });
+  };
+
+  return (
+    <div className="space-y-2 mt-2">
+      <input
+        type="text"
+        value={conditions.description || ''}
+        onChange={(e) => setConditions({ description: e.target.value || undefined })}
+        placeholder="Description contains…"
+        className={inputClassName}
+      />
+      <label className="flex items-center space-x-2 text-xs text-gray-600">
+        <input
+          type="checkbox"
+          checked={conditions.isRegex === true}
+          onChange={(e) => setConditions({ isRegex: e.target.checked || undefined })}
+        />
+        <span>Regular expression</span>
+      </label>
+      {patternError && <p className="text-xs text-red-600">{patternError}</p>}
+
+      <div className="grid grid-cols-3 gap-2">
+        <input
+          type="number"
+          value={conditions.minAmount ?? ''}
+          onChange={(e) => setConditions({ minAmount: parseAmount(e.target.value) })}
+          placeholder="Min"
+          className={inputClassName}
+        />
+        <input
+          type="number"
+          value={conditions.maxAmount ?? ''}
+          onChange={(e) => setConditions({ maxAmount: parseAmount(e.target.value) })}
+          placeholder="Max"
+          className={inputClassName}
+        />
+        <select
+          value={conditions.type || ''}
+          onChange={(e) => setConditions({ type: (e.target.value || undefined) as CategoryRule['conditions']['type'] })}
+          className={inputClassName}
+        >
+          <option value="">Any</option>
+          <option value="debit">Debits</option>
+          <option value="credit">Credits</option>
+        </select>
+      </div>
+
+      <input
+        type="text"
+        value={draft.category || ''}
+        onChange={(e) => setDraft({ ...draft, category: e.target.value })}
+        placeholder="Category"
+        list="rule-categories"
+        className={inputClassName}
+      />
+      <datalist id="rule-categories">
+        {getTaxonomy().map(category => <option key={category.name} value={category.name} />)}
+      </datalist>
+      <input
+        type="text"
+        value={tags}
+        onChange={(e) => setTags(e.target.value)}
+        placeholder="Tags, comma separated"
+        className={inputClassName}
+      />
+      <input
+        type="text"
+        value={draft.renameTo || ''}
+        onChange={(e) => setDraft({ ...draft, renameTo: e.target.value })}
+        placeholder="Rename description to"
+        className={inputClassName}
+      />
+
+      {draft.suggestedKeywords && draft.suggestedKeywords.length > 0 && (
+        <p className="text-xs text-gray-500">Also matches descriptions containing: {draft.suggestedKeywords.join(', ')}</p>
+      )}
+
+      <div className="flex justify-end space-x-2">
+        <button
+          onClick={onCancel}
+          className="px-3 py-1.5 text-sm text-gray-700 rounded-lg hover:bg-gray-100 transition-colors"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={save}
+          disabled={!!patternError}
+          className="px-3 py-1.5 text-sm bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:opacity-50 transition-colors"
+        >
+          Save
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export const CategoryRules: React.FC<CategoryRulesProps> = ({
+  rules,
+  error,
+  onSave,
+  onDelete,
+  onImport,
+  onExport
+}) => {
+  const [editing, setEditing] = useState<CategoryRule | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const importFile = async (file: File | undefined) => {
+    if (file) onImport(await file.text());
+    if (fileInput.current) fileInput.current.value = '';
+  };
+
+  const isNew = editing !== null && !rules.some(rule => rule.id === editing.id);
+
+  return (
+    <div className="bg-white/80 backdrop-blur-xl rounded-2xl border border-white/20 shadow-xl p-6 hover:shadow-2xl transition-all duration-300">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center space-x-2">
+          <div className="w-6 h-6 bg-gradient-to-br from-indigo-500 to-purple-500 rounded-lg flex items-center justify-center">
+            <ListFilter className="w-4 h-4 text-white" />
+          </div>
+          <h3 className="text-xl font-bold text-gray-900">Categorization Rules</h3>
+        </div>
+        <div className="flex items-center space-x-1">
+          <button
+            onClick={() => setEditing(createCategoryRule())}
+            title="Add rule"
+            className="p-2 text-gray-600 rounded-lg hover:bg-indigo-50 hover:text-indigo-600 transition-colors"
+          >
+            <Plus className="w-4 h-4" />
+          </button>
+          <button
+            onClick={() => fileInput.current?.click()}
+            title="Import rules"
+            className="p-2 text-gray-600 rounded-lg hover:bg-indigo-50 hover:text-indigo-600 transition-colors"
+          >
+            <Upload className="w-4 h-4" />
+          </button>
+          <button
+            onClick={onExport}
+            disabled={rules.length === 0}
+            title="Export rules"
+            className="p-2 text-gray-600 rounded-lg hover:bg-indigo-50 hover:text-indigo-600 disabled:opacity-40 transition-colors"
+          >
+            <Download className="w-4 h-4" />
+          </button>
+          <input
+            ref={fileInput}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={(e) => importFile(e.target.files?.[0])}
+          />
+        </div>
+      </div>
+
+      {error && (
+        <div className="flex items-start space-x-2 mb-4 p-3 rounded-xl bg-red-50 text-red-700 text-sm">
+          <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      {rules.length === 0 && !editing && (
+        <p className="text-sm text-gray-500">
+          Rules run before AI categorization. Correct a category in the preview to create one, or add your own.
+        </p>
+      )}
+
+      <ul className="space-y-3">
+        {rules.map(rule => (
+          <li key={rule.id} className="p-3 rounded-xl bg-gray-50">
+            <div className="flex items-start space-x-2">
+              <button
+                onClick={() => onSave({ ...rule, enabled: !rule.enabled })}
+                title={rule.enabled ? 'Disable rule' : 'Enable rule'}
+                className="flex-shrink-0 mt-0.5"
+              >
+                {rule.enabled ? (
+                  <CheckSquare className="w-4 h-4 text-indigo-600" />
+                ) : (
+                  <Square className="w-4 h-4 text-gray-400" />
+                )}
+              </button>
+              <span className={`flex-1 text-sm break-words ${rule.enabled ? 'text-gray-800' : 'text-gray-400'}`}>
+                {describeRule(rule)}
+              </span>
+              <button
+                onClick={() => setEditing(rule)}
+                title="Edit rule"
+                className="flex-shrink-0 text-gray-500 hover:text-indigo-600 transition-colors"
+              >
+                <Pencil className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => onDelete(rule.id)}
+                title="Delete rule"
+                className="flex-shrink-0 text-gray-500 hover:text-red-600 transition-colors"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+            {editing?.id === rule.id && (
+              <RuleEditor
+                rule={rule}
+                onCancel={() => setEditing(null)}
+                onSave={(next) => {
+                  onSave(next);
+                  setEditing(null);
+                }}
+              />
+            )}
+          </li>
+        ))}
+
+        {isNew && editing && (
+          <li className="p-3 rounded-xl bg-gray-50">
+            <span className="text-sm font-medium text-gray-800">New rule</span>
+            <RuleEditor
+              rule={editing}
+              onCancel={() => setEditing(null)}
+              onSave={(next) => {
+                onSave(next);
+                setEditing(null);
+              }}
+            />
+          </li>
+        )}
+      </ul>
+    </div>
+  );
+};
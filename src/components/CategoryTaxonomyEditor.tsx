@@ -0,0 +1,205 @@
+import React, { useState } from 'react';
+import { FolderTree, Plus, Trash2, RotateCcw, AlertCircle } from 'lucide-react';
+import {
+  CategoryTaxonomy,
+  DEFAULT_TAXONOMY,
+  getTaxonomy,
+  resetTaxonomy,
+  setTaxonomy,
+  TaxonomyCategory,
+  validateTaxonomy
+} from '../utils/categoryTaxonomy';
+
+interface CategoryTaxonomyEditorProps {
+  isDisabled?: boolean;
+}
+
+const inputClassName = 'w-full px-2 py-1.5 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 bg-white/80';
+
+const splitList = (value: string) => value.split(',').map(item => item.trim()).filter(Boolean);
+
+// Synonyms are edited as text so commas can be typed freely
+type DraftCategory = Omit<TaxonomyCategory, 'synonyms'> & { synonyms: string };
+
+const toDraft = (taxonomy: CategoryTaxonomy): DraftCategory[] =>
+  taxonomy.map(category => ({ ...category, synonyms: (category.synonyms || []).join(', ') }));
+
+const fromDraft = (draft: DraftCategory[]): CategoryTaxonomy =>
+  draft.map(({ name, parent, synonyms, accountCode }) => {
+    const list = splitList(synonyms);
+    return {
+      name: name.trim(),
+      parent: parent || undefined,
+      synonyms: list.length > 0 ? list : undefined,
+      accountCode: accountCode?.trim() || undefined
+    };
+  });
+
+export const CategoryTaxonomyEditor: React.FC<CategoryTaxonomyEditorProps> = ({ isDisabled = false }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [draft, setDraft] = useState<DraftCategory[]>(() => toDraft(getTaxonomy()));
+  const [isDirty, setIsDirty] = useState(false);
+
+  const taxonomy = fromDraft(draft);
+  const errors = validateTaxonomy(taxonomy);
+  const parents = taxonomy.filter(category => !category.parent && category.name);
+
+  const update = (index: number, fields: Partial<DraftCategory>) => {
+    const previousName = draft[index].name;
+    setDraft(prev => prev.map((category, i) => {
+      if (i === index) return { ...category, ...fields };
+      // Subcategories follow a renamed parent
+      if (fields.name !== undefined && previousName && category.parent === previousName) {
+        return { ...category, parent: fields.name };
+      }
+      return category;
+    }));
+    setIsDirty(true);
+  };
+
+  const remove = (index: number) => {
+    const removed = draft[index].name;
+    // Subcategories of a removed category become top-level
+    setDraft(prev => prev
+      .filter((_, i) => i !== index)
+      .map(category => (category.parent === removed ? { ...category, parent: undefined } : category)));
+    setIsDirty(true);
+  };
+
+  const add = () => {
+    setDraft(prev => [...prev, { name: '', synonyms: '' }]);
+    setIsDirty(true);
+  };
+
+  const save = () => {
+    setTaxonomy(taxonomy);
+    setIsDirty(false);
+  };
+
+  const reset = () => {
+    resetTaxonomy();
+    setDraft(toDraft(DEFAULT_TAXONOMY));
+    setIsDirty(false);
+  };
+
+  return (
+    <div className="bg-white/80 backdrop-blur-xl rounded-2xl border border-white/20 shadow-xl p-6 hover:shadow-2xl transition-all duration-300">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <div className="w-6 h-6 bg-gradient-to-br from-indigo-500 to-purple-500 rounded-lg flex items-center justify-center">
+            <FolderTree className="w-4 h-4 text-white" />
+          </div>
+          <h3 className="text-xl font-bold text-gray-900">Categories</h3>
+        </div>
+        <button
+          onClick={() => setIsOpen(!isOpen)}
+          className="text-sm font-medium text-indigo-600 hover:text-indigo-700"
+        >
+          {isOpen ? 'Close' : `Edit (${parents.length} groups)`}
+        </button>
+      </div>
+
+      {isOpen && (
+        <div className="mt-4 space-y-3">
+          <p className="text-xs text-gray-500">
+            AI and built-in categorization only use these categories. Synonyms map other names onto a category;
+            account codes are included in the summary sheet.
+          </p>
+
+          <div className="max-h-96 overflow-y-auto space-y-2 pr-1">
+            {draft.map((category, index) => (
+              <div key={index} className={`p-2 rounded-xl bg-gray-50 space-y-1.5 ${category.parent ? 'ml-4' : ''}`}>
+                <div className="flex items-center space-x-2">
+                  <input
+                    type="text"
+                    value={category.name}
+                    disabled={isDisabled}
+                    onChange={(e) => update(index, { name: e.target.value })}
+                    placeholder="Name"
+                    className={inputClassName}
+                  />
+                  <button
+                    onClick={() => remove(index)}
+                    disabled={isDisabled}
+                    title="Remove category"
+                    className="flex-shrink-0 text-gray-500 hover:text-red-600 transition-colors"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+                <div className="grid grid-cols-2 gap-2">
+                  <select
+                    value={category.parent || ''}
+                    disabled={isDisabled}
+                    onChange={(e) => update(index, { parent: e.target.value || undefined })}
+                    className={inputClassName}
+                  >
+                    <option value="">Top level</option>
+                    {parents
+                      .filter(parent => parent.name !== category.name.trim())
+                      .map(parent => (
+                        <option key={parent.name} value={parent.name}>Under {parent.name}</option>
+                      ))}
+                  </select>
+                  <input
+                    type="text"
+                    value={category.accountCode || ''}
+                    disabled={isDisabled}
+                    onChange={(e) => update(index, { accountCode: e.target.value })}
+                    placeholder="Account code"
+                    className={inputClassName}
+                  />
+                </div>
+                <input
+                  type="text"
+                  value={category.synonyms}
+                  disabled={isDisabled}
+                  onChange={(e) => update(index, { synonyms: e.target.value })}
+                  placeholder="Synonyms, comma separated"
+                  className={inputClassName}
+                />
+              </div>
+            ))}
+          </div>
+
+          {errors.length > 0 && (
+            <div className="flex items-start space-x-2 p-3 rounded-xl bg-red-50 text-red-700 text-sm">
+              <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+              <ul className="space-y-1">
+                {errors.map(error => <li key={error}>{error}</li>)}
+              </ul>
+            </div>
+          )}
+
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-1">
+              <button
+                onClick={add}
+                disabled={isDisabled}
+                className="inline-flex items-center px-3 py-1.5 text-sm text-gray-700 rounded-lg hover:bg-indigo-50 hover:text-indigo-600 transition-colors"
+              >
+                <Plus className="w-4 h-4 mr-1" />
+                Add
+              </button>
+              <button
+                onClick={reset}
+                disabled={isDisabled}
+                className="inline-flex items-center px-3 py-1.5 text-sm text-gray-700 rounded-lg hover:bg-indigo-50 hover:text-indigo-600 transition-colors"
+              >
+                <RotateCcw className="w-4 h-4 mr-1" />
+                Defaults
+              </button>
+            </div>
+            <button
+              onClick={save}
+              disabled={isDisabled || !isDirty || errors.length > 0}
+              className="px-3 py-1.5 text-sm bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:opacity-50 transition-colors"
+            >
+              Save
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
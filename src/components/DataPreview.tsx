@@ -1,13 +1,78 @@
-import React from 'react';
-import { Calendar, DollarSign, Building, Tag } from 'lucide-react';
-import { BankStatementData } from '../utils/pdfParser';
+import React, { useMemo, useState } from 'react';
+import { Calendar, DollarSign, Building, Tag, AlertTriangle, ScanLine, GitCompare } from 'lucide-react';
+import { StatementCollection, combineStatements } from '../utils/statementCollection';
+import { AIFailure, ParsedTransaction } from '../utils/pdfParser';
+import { getTaxonomy } from '../utils/categoryTaxonomy';
 
 interface DataPreviewProps {
-  bankData: BankStatementData;
+  statements: StatementCollection;
+  // Corrections become categorization rules
+  onCategoryChange?: (transaction: ParsedTransaction, category: string) => void;
 }
 
-export const DataPreview: React.FC<DataPreviewProps> = ({ bankData }) => {
+const ALL_STATEMENTS = 'all';
+
+const channelLabels: Record<NonNullable<ParsedTransaction['channel']>, string> = {
+  pos: 'Card',
+  atm: 'ATM',
+  ach: 'ACH',
+  wire: 'Wire',
+  check: 'Check',
+  transfer: 'Transfer'
+};
+
+const aiFailureLabels: Record<AIFailure['task'], string> = {
+  'bank-detection': 'AI bank detection failed',
+  'column-inference': 'AI column mapping failed, standard columns were assumed',
+  categorization: 'AI categorization failed',
+  'statement-extraction': 'AI cross-check failed, only the rule-based extraction was used',
+  'merchant-extraction': 'AI merchant identification failed, built-in rules were used'
+};
+
+// One line summarizing the structured fields read from the description
+const describeDetails = (transaction: ParsedTransaction) =>
+  [
+    transaction.merchant,
+    transaction.counterparty && transaction.counterparty !== transaction.merchant && `↔ ${transaction.counterparty}`,
+    transaction.channel && channelLabels[transaction.channel],
+    transaction.location,
+    transaction.cardLast4 && `•••• ${transaction.cardLast4}`,
+    transaction.reference && `Ref ${transaction.reference}`
+  ].filter(Boolean).join(' · ');
+
+export const DataPreview: React.FC<DataPreviewProps> = ({ statements, onCategoryChange }) => {
+  const [selected, setSelected] = useState(ALL_STATEMENTS);
+  const [editingRow, setEditingRow] = useState<number | null>(null);
+  const [categoryDraft, setCategoryDraft] = useState('');
+  const ids = Object.keys(statements);
+  const showingAll = !statements[selected];
+
+  const bankData = useMemo(
+    () => statements[selected] || combineStatements(Object.values(statements)),
+    [statements, selected]
+  );
+
   const { transactions, bankName, accountNumber, statementPeriod } = bankData;
+  const ocrPages = (bankData.pages || []).filter(page => page.source === 'ocr');
+  const aiFailures = bankData.aiFailures || [];
+  const crossCheck = bankData.crossCheck;
+  const categories = Array.from(new Set([
+    ...getTaxonomy().map(category => category.name),
+    ...transactions.map(t => t.category).filter((c): c is string => !!c)
+  ]));
+
+  const startEditing = (index: number, transaction: ParsedTransaction) => {
+    setEditingRow(index);
+    setCategoryDraft(transaction.category || '');
+  };
+
+  const finishEditing = (transaction: ParsedTransaction) => {
+    const category = categoryDraft.trim();
+    if (category && category !== transaction.category) {
+      onCategoryChange?.(transaction, category);
+    }
+    setEditingRow(null);
+  };
   
   const totalCredits = transactions
     .filter(t => t.type === 'credit')
@@ -21,6 +86,26 @@ export const DataPreview: React.FC<DataPreviewProps> = ({ bankData }) => {
     <div className="bg-white/80 backdrop-blur-xl rounded-2xl border border-white/20 shadow-xl overflow-hidden hover:shadow-2xl transition-all duration-300">
       <div className="bg-gradient-to-r from-indigo-50 via-purple-50 to-pink-50 p-8 border-b border-gray-200/50">
         <h3 className="text-xl font-bold text-gray-900 mb-6">Data Preview</h3>
+
+        {ids.length > 1 && (
+          <div className="flex flex-wrap gap-2 mb-6">
+            {[ALL_STATEMENTS, ...ids].map(id => (
+              <button
+                key={id}
+                onClick={() => setSelected(id)}
+                className={`px-3 py-1.5 rounded-full text-sm font-medium transition-colors ${
+                  (id === ALL_STATEMENTS ? showingAll : id === selected)
+                    ? 'bg-indigo-600 text-white'
+                    : 'bg-white/80 text-gray-700 hover:bg-indigo-50'
+                }`}
+              >
+                {id === ALL_STATEMENTS
+                  ? `All statements (${ids.length})`
+                  : statements[id].sourceFile || statements[id].bankName}
+              </button>
+            ))}
+          </div>
+        )}
         
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
           <div className="bg-white/80 backdrop-blur-xl rounded-xl p-5 border border-white/20 shadow-lg hover:shadow-xl transition-all duration-300 transform hover:scale-105">
@@ -64,6 +149,50 @@ export const DataPreview: React.FC<DataPreviewProps> = ({ bankData }) => {
       </div>
       
       <div className="p-6">
+        {ocrPages.length > 0 && (
+          <div className="flex items-start space-x-2 mb-4 p-3 rounded-xl bg-amber-50 text-amber-800 text-sm">
+            <ScanLine className="w-4 h-4 mt-0.5 flex-shrink-0" />
+            <span>
+              {ocrPages.length === 1 ? 'Page' : 'Pages'}{' '}
+              {ocrPages
+                .map(page => `${page.pageNumber} (${Math.round((page.ocrConfidence || 0) * 100)}% confidence)`)
+                .join(', ')}{' '}
+              had no text layer and were read with OCR. Please double-check these transactions.
+            </span>
+          </div>
+        )}
+
+        {aiFailures.length > 0 && (
+          <div className="flex items-start space-x-2 mb-4 p-3 rounded-xl bg-amber-50 text-amber-800 text-sm">
+            <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+            <ul className="space-y-1">
+              {aiFailures.map(failure => (
+                <li key={`${failure.task}-${failure.reason}`}>
+                  {aiFailureLabels[failure.task]}: {failure.reason}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {crossCheck && (
+          <div className="flex items-start space-x-2 mb-4 p-3 rounded-xl bg-indigo-50 text-indigo-800 text-sm">
+            <GitCompare className="w-4 h-4 mt-0.5 flex-shrink-0" />
+            {crossCheck.source === 'ai' ? (
+              <span>The parser found no transactions; these rows come from the AI extraction. Please review them.</span>
+            ) : (
+              <span>
+                AI cross-check: {crossCheck.matched} rows agree, {crossCheck.amountMismatches} differ in amount,{' '}
+                {crossCheck.dateMismatches} differ in date, {crossCheck.missingFromAI} were not found by AI
+                and {crossCheck.missingFromParser.length} were found only by AI
+                {crossCheck.missingFromParser.length > 0 && (
+                  <>: {crossCheck.missingFromParser.map(row => `${row.date} ${row.description} (${row.amount.toFixed(2)})`).join('; ')}</>
+                )}
+              </span>
+            )}
+          </div>
+        )}
+
         <div className="overflow-x-auto">
           <table className="w-full">
             <thead>
@@ -79,16 +208,79 @@ export const DataPreview: React.FC<DataPreviewProps> = ({ bankData }) => {
               {transactions.slice(0, 10).map((transaction, index) => (
                 <tr key={`${transaction.date}-${index}`} className="border-b border-gray-100 hover:bg-gray-50 transition-colors">
                   <td className="py-3 px-4 text-sm text-gray-900">
-                    {new Date(transaction.date).toLocaleDateString()}
+                    {transaction.dateIssue ? (
+                      <span
+                        className="inline-flex items-center text-amber-700"
+                        title={transaction.dateIssue === 'missing-year'
+                          ? 'Year could not be determined'
+                          : 'Day and month order is ambiguous'}
+                      >
+                        <AlertTriangle className="w-3 h-3 mr-1" />
+                        {transaction.date}
+                      </span>
+                    ) : (
+                      new Date(transaction.date).toLocaleDateString()
+                    )}
                   </td>
                   <td className="py-3 px-4 text-sm text-gray-900 max-w-xs truncate">
-                    {transaction.description}
+                    {transaction.crossCheck && transaction.crossCheck.status !== 'matched' && (
+                      <span
+                        className="inline-flex mr-1 text-indigo-600 align-middle"
+                        title={transaction.crossCheck.status === 'amount-mismatch'
+                          ? `AI read the amount as ${transaction.crossCheck.aiAmount?.toFixed(2)}`
+                          : transaction.crossCheck.status === 'date-mismatch'
+                          ? `AI read the date as ${transaction.crossCheck.aiDate}`
+                          : 'Not found by the AI extraction'}
+                      >
+                        <GitCompare className="w-3 h-3" />
+                      </span>
+                    )}
+                    <span title={transaction.originalDescription && `Printed as: ${transaction.originalDescription}`}>
+                      {transaction.description}
+                    </span>
+                    {describeDetails(transaction) && (
+                      <p className="text-xs text-gray-500 truncate">{describeDetails(transaction)}</p>
+                    )}
+                    {showingAll && ids.length > 1 && transaction.sourceFile && (
+                      <p className="text-xs text-gray-500 truncate">{transaction.sourceFile}</p>
+                    )}
                   </td>
                   <td className="py-3 px-4">
-                    <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
-                      <Tag className="w-3 h-3 mr-1" />
-                      {transaction.category || 'Uncategorized'}
-                    </span>
+                    {editingRow === index ? (
+                      <input
+                        autoFocus
+                        list="preview-categories"
+                        value={categoryDraft}
+                        onChange={(e) => setCategoryDraft(e.target.value)}
+                        onBlur={() => finishEditing(transaction)}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter') e.currentTarget.blur();
+                          if (e.key === 'Escape') setEditingRow(null);
+                        }}
+                        className="w-36 px-2 py-1 border border-indigo-300 rounded-lg text-xs focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                      />
+                    ) : (
+                      <button
+                        onClick={() => onCategoryChange && startEditing(index, transaction)}
+                        disabled={!onCategoryChange}
+                        className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${
+                          transaction.categoryFailure ? 'bg-amber-100 text-amber-800' : 'bg-blue-100 text-blue-800'
+                        } ${onCategoryChange ? 'hover:ring-2 hover:ring-indigo-300 cursor-pointer' : ''}`}
+                        title={transaction.categoryFailure
+                          ? `AI categorization failed: ${transaction.categoryFailure}`
+                          : onCategoryChange ? 'Click to correct the category' : undefined}
+                      >
+                        {transaction.categoryFailure ? (
+                          <AlertTriangle className="w-3 h-3 mr-1" />
+                        ) : (
+                          <Tag className="w-3 h-3 mr-1" />
+                        )}
+                        {transaction.category || 'Uncategorized'}
+                      </button>
+                    )}
+                    {transaction.tags && transaction.tags.length > 0 && (
+                      <p className="mt-1 text-xs text-gray-500">#{transaction.tags.join(' #')}</p>
+                    )}
                   </td>
                   <td className={`py-3 px-4 text-sm text-right font-medium ${
                     transaction.type === 'credit' ? 'text-green-700' : 'text-red-700'
@@ -103,6 +295,9 @@ export const DataPreview: React.FC<DataPreviewProps> = ({ bankData }) => {
               ))}
             </tbody>
           </table>
+          <datalist id="preview-categories">
+            {categories.map(category => <option key={category} value={category} />)}
+          </datalist>
           
           {transactions.length > 10 && (
             <div className="text-center py-4 text-sm text-gray-500">
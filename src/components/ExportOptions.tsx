@@ -1,26 +1,74 @@
 import React, { useState } from 'react';
-import { FileSpreadsheet, Settings, CheckSquare, Square } from 'lucide-react';
-import { ExportOptions as ExportOptionsType } from '../utils/excelExporter';
+import { FileSpreadsheet, FileText, Settings, CheckSquare, Square } from 'lucide-react';
+import { ExportFormat, ExportOptions as ExportOptionsType } from '../utils/excelExporter';
+import { CsvOptions, DEFAULT_CSV_OPTIONS } from '../utils/csvExporter';
+import { DEFAULT_OFX_OPTIONS, OfxOptions } from '../utils/ofxExporter';
+import { DEFAULT_QIF_OPTIONS, QifOptions } from '../utils/qifExporter';
+
+const FORMAT_LABELS: Record<ExportFormat, string> = {
+  xlsx: 'Excel',
+  csv: 'CSV',
+  ofx: 'OFX',
+  qfx: 'QFX',
+  qif: 'QIF'
+};
+
+// `formats` limits an option to the formats it applies to
+const INCLUDE_OPTIONS: Array<{ key: keyof ExportOptionsType; label: string; formats?: ExportFormat[] }> = [
+  { key: 'includeCategories', label: 'Transaction Categories' },
+  { key: 'includeBalance', label: 'Running Balance', formats: ['xlsx', 'csv'] },
+  { key: 'groupByMonth', label: 'Group by Month', formats: ['xlsx'] },
+  { key: 'includeSummary', label: 'Summary Sheet', formats: ['xlsx'] },
+  { key: 'rollUpCategories', label: 'Totals by Parent Category', formats: ['xlsx'] }
+];
+
+const fieldClassName = 'w-full px-4 py-3 border border-gray-300 rounded-xl focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-all duration-200 bg-white/80 backdrop-blur-xl';
 
 interface ExportOptionsProps {
   onExport: (options: ExportOptionsType) => void;
   isDisabled?: boolean;
+  // Shown under the button after the last export
+  notice?: string | null;
 }
 
-export const ExportOptions: React.FC<ExportOptionsProps> = ({ onExport, isDisabled = false }) => {
+export const ExportOptions: React.FC<ExportOptionsProps> = ({ onExport, isDisabled = false, notice }) => {
   const [settings, setSettings] = useState<ExportOptionsType>({
     includeCategories: true,
     includeBalance: true,
     dateFormat: 'MM/DD/YYYY',
     currency: 'USD',
     groupByMonth: false,
-    includeSummary: true
+    includeSummary: true,
+    rollUpCategories: false,
+    format: 'xlsx',
+    csv: DEFAULT_CSV_OPTIONS,
+    ofx: DEFAULT_OFX_OPTIONS,
+    qif: DEFAULT_QIF_OPTIONS
   });
+  const format = settings.format || 'xlsx';
+  const csv = { ...DEFAULT_CSV_OPTIONS, ...settings.csv };
+  const ofx = { ...DEFAULT_OFX_OPTIONS, ...settings.ofx };
+  const qif = { ...DEFAULT_QIF_OPTIONS, ...settings.qif };
+  const isOfx = format === 'ofx' || format === 'qfx';
 
   const handleExport = () => {
     onExport(settings);
   };
 
+  const setCsvOption = <K extends keyof CsvOptions>(key: K, value: CsvOptions[K]) => {
+    setSettings(prev => ({
+      ...prev,
+      csv: { ...DEFAULT_CSV_OPTIONS, ...prev.csv, [key]: value }
+    }));
+  };
+
+  const setOfxOption = <K extends keyof OfxOptions>(key: K, value: OfxOptions[K]) => {
+    setSettings(prev => ({
+      ...prev,
+      ofx: { ...DEFAULT_OFX_OPTIONS, ...prev.ofx, [key]: value }
+    }));
+  };
+
   const toggleSetting = (key: keyof ExportOptionsType) => {
     if (typeof settings[key] === 'boolean') {
       setSettings(prev => ({
@@ -40,49 +88,70 @@ export const ExportOptions: React.FC<ExportOptionsProps> = ({ onExport, isDisabl
       </div>
       
       <div className="space-y-6">
-        <div>
-          <h4 className="font-medium text-gray-900 mb-3">Include Data</h4>
-          <div className="space-y-2">
-            {[
-              { key: 'includeCategories', label: 'Transaction Categories' },
-              { key: 'includeBalance', label: 'Running Balance' },
-              { key: 'groupByMonth', label: 'Group by Month' },
-              { key: 'includeSummary', label: 'Summary Sheet' }
-            ].map(({ key, label }) => (
-              <label key={key} className="flex items-center space-x-3 cursor-pointer">
-                <button
-                  onClick={() => toggleSetting(key as keyof ExportOptionsType)}
-                  className="flex-shrink-0 transition-transform duration-200 hover:scale-110"
-                >
-                  {settings[key as keyof ExportOptionsType] ? (
-                    <CheckSquare className="w-5 h-5 text-indigo-600" />
-                  ) : (
-                    <Square className="w-5 h-5 text-gray-400" />
-                  )}
-                </button>
-                <span className="text-sm text-gray-700">{label}</span>
-              </label>
-            ))}
-          </div>
-        </div>
-        
         <div>
           <label className="block text-sm font-medium text-gray-700 mb-2">
-            Date Format
+            Format
           </label>
           <select
-            value={settings.dateFormat}
+            value={format}
             onChange={(e) => setSettings(prev => ({
               ...prev,
-              dateFormat: e.target.value as ExportOptionsType['dateFormat']
+              format: e.target.value as ExportFormat
             }))}
-            className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-all duration-200 bg-white/80 backdrop-blur-xl"
+            className={fieldClassName}
           >
-            <option value="MM/DD/YYYY">MM/DD/YYYY (US)</option>
-            <option value="DD/MM/YYYY">DD/MM/YYYY (EU)</option>
-            <option value="YYYY-MM-DD">YYYY-MM-DD (ISO)</option>
+            <option value="xlsx">Excel workbook (.xlsx)</option>
+            <option value="csv">CSV / TSV (transactions only)</option>
+            <option value="ofx">OFX (Xero, QuickBooks, GnuCash)</option>
+            <option value="qfx">QFX (Quicken)</option>
+            <option value="qif">QIF (older finance software)</option>
           </select>
         </div>
+
+        {!isOfx && (
+          <div>
+            <h4 className="font-medium text-gray-900 mb-3">Include Data</h4>
+            <div className="space-y-2">
+              {INCLUDE_OPTIONS.filter(({ formats }) => !formats || formats.includes(format)).map(({ key, label }) => (
+                <label key={key} className="flex items-center space-x-3 cursor-pointer">
+                  <button
+                    onClick={() => toggleSetting(key)}
+                    className="flex-shrink-0 transition-transform duration-200 hover:scale-110"
+                  >
+                    {settings[key] ? (
+                      <CheckSquare className="w-5 h-5 text-indigo-600" />
+                    ) : (
+                      <Square className="w-5 h-5 text-gray-400" />
+                    )}
+                  </button>
+                  <span className="text-sm text-gray-700">{label}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+        )}
+        
+        {!isOfx && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Date Format
+            </label>
+            <select
+              value={settings.dateFormat}
+              onChange={(e) => setSettings(prev => ({
+                ...prev,
+                dateFormat: e.target.value as ExportOptionsType['dateFormat']
+              }))}
+              className={fieldClassName}
+            >
+              <option value="MM/DD/YYYY">MM/DD/YYYY (US)</option>
+              <option value="DD/MM/YYYY">DD/MM/YYYY (EU)</option>
+              {format !== 'qif' && (
+                <option value="YYYY-MM-DD">YYYY-MM-DD (ISO)</option>
+              )}
+            </select>
+          </div>
+        )}
         
         <div>
           <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -94,7 +163,7 @@ export const ExportOptions: React.FC<ExportOptionsProps> = ({ onExport, isDisabl
               ...prev,
               currency: e.target.value
             }))}
-            className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-all duration-200 bg-white/80 backdrop-blur-xl"
+            className={fieldClassName}
           >
             <option value="USD">USD ($)</option>
             <option value="EUR">EUR (€)</option>
@@ -104,6 +173,146 @@ export const ExportOptions: React.FC<ExportOptionsProps> = ({ onExport, isDisabl
             <option value="JPY">JPY (¥)</option>
           </select>
         </div>
+
+        {format === 'csv' && (
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Delimiter
+              </label>
+              <select
+                value={csv.delimiter}
+                onChange={(e) => setCsvOption('delimiter', e.target.value as CsvOptions['delimiter'])}
+                className={fieldClassName}
+              >
+                <option value=",">Comma</option>
+                <option value=";">Semicolon</option>
+                <option value={'\t'}>Tab (TSV)</option>
+                <option value="|">Pipe</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Decimal Separator
+              </label>
+              <select
+                value={csv.decimalSeparator}
+                onChange={(e) => setCsvOption('decimalSeparator', e.target.value as CsvOptions['decimalSeparator'])}
+                className={fieldClassName}
+              >
+                <option value=".">Point (1234.56)</option>
+                <option value=",">Comma (1234,56)</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Quoting
+              </label>
+              <select
+                value={csv.quoting}
+                onChange={(e) => setCsvOption('quoting', e.target.value as CsvOptions['quoting'])}
+                className={fieldClassName}
+              >
+                <option value="minimal">When needed</option>
+                <option value="all">Every field</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Line Endings
+              </label>
+              <select
+                value={csv.lineEnding}
+                onChange={(e) => setCsvOption('lineEnding', e.target.value as CsvOptions['lineEnding'])}
+                className={fieldClassName}
+              >
+                <option value={'\r\n'}>Windows (CRLF)</option>
+                <option value={'\n'}>Unix (LF)</option>
+              </select>
+            </div>
+            <label className="col-span-2 flex items-center space-x-3 cursor-pointer">
+              <button
+                onClick={() => setCsvOption('includeBom', !csv.includeBom)}
+                className="flex-shrink-0 transition-transform duration-200 hover:scale-110"
+              >
+                {csv.includeBom ? (
+                  <CheckSquare className="w-5 h-5 text-indigo-600" />
+                ) : (
+                  <Square className="w-5 h-5 text-gray-400" />
+                )}
+              </button>
+              <span className="text-sm text-gray-700">UTF-8 byte order mark (for Excel)</span>
+            </label>
+            {csv.delimiter === csv.decimalSeparator && (
+              <p className="col-span-2 text-xs text-amber-700">
+                Amounts will be quoted, since the decimal separator is also the delimiter.
+              </p>
+            )}
+          </div>
+        )}
+
+        {format === 'qif' && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Account Type
+            </label>
+            <select
+              value={qif.accountType}
+              onChange={(e) => setSettings(prev => ({
+                ...prev,
+                qif: { accountType: e.target.value as QifOptions['accountType'] }
+              }))}
+              className={fieldClassName}
+            >
+              <option value="Bank">Bank account</option>
+              <option value="CCard">Credit card</option>
+            </select>
+          </div>
+        )}
+
+        {isOfx && (
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Account Type
+              </label>
+              <select
+                value={ofx.accountType}
+                onChange={(e) => setOfxOption('accountType', e.target.value as OfxOptions['accountType'])}
+                className={fieldClassName}
+              >
+                <option value="CHECKING">Checking</option>
+                <option value="SAVINGS">Savings</option>
+                <option value="MONEYMRKT">Money market</option>
+                <option value="CREDITLINE">Line of credit</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Routing Number
+              </label>
+              <input
+                type="text"
+                value={ofx.bankId || ''}
+                onChange={(e) => setOfxOption('bankId', e.target.value.trim() || undefined)}
+                placeholder="Optional"
+                className={fieldClassName}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Account Number
+              </label>
+              <input
+                type="text"
+                value={ofx.accountId || ''}
+                onChange={(e) => setOfxOption('accountId', e.target.value.trim() || undefined)}
+                placeholder="If not on the statement"
+                className={fieldClassName}
+              />
+            </div>
+          </div>
+        )}
         
         <button
           onClick={handleExport}
@@ -114,9 +323,17 @@ export const ExportOptions: React.FC<ExportOptionsProps> = ({ onExport, isDisabl
               : 'bg-gradient-to-r from-green-500 via-emerald-500 to-teal-500 text-white hover:from-green-600 hover:via-emerald-600 hover:to-teal-600 hover:shadow-2xl transform hover:scale-[1.02]'
           }`}
         >
-          <FileSpreadsheet className="w-5 h-5 mr-2" />
-          Export to Excel
+          {format === 'xlsx' ? (
+            <FileSpreadsheet className="w-5 h-5 mr-2" />
+          ) : (
+            <FileText className="w-5 h-5 mr-2" />
+          )}
+          Export to {FORMAT_LABELS[format]}
         </button>
+
+        {notice && (
+          <p className="text-sm text-amber-700">{notice}</p>
+        )}
       </div>
     </div>
   );
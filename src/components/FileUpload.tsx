@@ -1,21 +1,26 @@
 import React, { useCallback, useState } from 'react';
-import { Upload, FileText, X, CheckCircle } from 'lucide-react';
+import { Upload, FileText, X, CheckCircle, Lock, AlertCircle } from 'lucide-react';
 
 interface UploadedFile {
   id: string;
   file: File;
-  status: 'uploading' | 'ready' | 'processing' | 'completed' | 'error';
+  status: 'uploading' | 'ready' | 'processing' | 'completed' | 'error' | 'locked';
   progress: number;
   bankDetected?: string;
+  password?: string;
+  passwordError?: 'required' | 'incorrect';
+  error?: string;
 }
 
 interface FileUploadProps {
   onFilesUploaded: (files: UploadedFile[]) => void;
   uploadedFiles: UploadedFile[];
+  onUnlock: (fileId: string, password: string) => void;
 }
 
-export const FileUpload: React.FC<FileUploadProps> = ({ onFilesUploaded, uploadedFiles }) => {
+export const FileUpload: React.FC<FileUploadProps> = ({ onFilesUploaded, uploadedFiles, onUnlock }) => {
   const [isDragOver, setIsDragOver] = useState(false);
+  const [passwords, setPasswords] = useState<Record<string, string>>({});
 
   const handleDragOver = useCallback((e: React.DragEvent) => {
     e.preventDefault();
@@ -68,6 +73,19 @@ export const FileUpload: React.FC<FileUploadProps> = ({ onFilesUploaded, uploade
     onFilesUploaded(uploadedFiles.filter(f => f.id !== fileId));
   }, [onFilesUploaded, uploadedFiles]);
 
+  const handleUnlock = useCallback((e: React.FormEvent, fileId: string) => {
+    e.preventDefault();
+    const password = passwords[fileId];
+    if (!password) return;
+
+    onUnlock(fileId, password);
+    setPasswords(prev => {
+      const next = { ...prev };
+      delete next[fileId];
+      return next;
+    });
+  }, [onUnlock, passwords]);
+
   return (
     <div className="space-y-6">
       <div
@@ -117,46 +135,100 @@ export const FileUpload: React.FC<FileUploadProps> = ({ onFilesUploaded, uploade
           <h4 className="font-bold text-gray-900 text-lg">Uploaded Files ({uploadedFiles.length})</h4>
           
           {uploadedFiles.map((file) => (
-            <div key={file.id} className="flex items-center justify-between p-5 bg-white/80 backdrop-blur-xl rounded-xl border border-white/20 shadow-lg hover:shadow-xl transition-all duration-300 transform hover:scale-[1.01]">
-              <div className="flex items-center space-x-3">
-                <div className="w-12 h-12 bg-gradient-to-br from-red-400 to-pink-500 rounded-xl flex items-center justify-center shadow-lg">
-                  <FileText className="w-5 h-5 text-red-600" />
-                </div>
+            <div key={file.id} className="p-5 bg-white/80 backdrop-blur-xl rounded-xl border border-white/20 shadow-lg hover:shadow-xl transition-all duration-300 transform hover:scale-[1.01]">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center space-x-3">
+                  <div className="w-12 h-12 bg-gradient-to-br from-red-400 to-pink-500 rounded-xl flex items-center justify-center shadow-lg">
+                    <FileText className="w-5 h-5 text-red-600" />
+                  </div>
                 
-                <div>
-                  <p className="font-medium text-gray-900 truncate max-w-xs">
-                    {file.file.name}
-                  </p>
-                  <div className="flex items-center space-x-2 text-sm text-gray-500">
-                    <span>{(file.file.size / 1024 / 1024).toFixed(1)} MB</span>
-                    {file.bankDetected && (
-                      <>
-                        <span>•</span>
-                        <span className="text-green-600 font-medium">{file.bankDetected}</span>
-                      </>
-                    )}
+                  <div>
+                    <p className="font-medium text-gray-900 truncate max-w-xs">
+                      {file.file.name}
+                    </p>
+                    <div className="flex items-center space-x-2 text-sm text-gray-500">
+                      <span>{(file.file.size / 1024 / 1024).toFixed(1)} MB</span>
+                      {file.bankDetected && (
+                        <>
+                          <span>•</span>
+                          <span className="text-green-600 font-medium">{file.bankDetected}</span>
+                        </>
+                      )}
+                    </div>
                   </div>
                 </div>
-              </div>
               
-              <div className="flex items-center space-x-2">
-                {file.status === 'completed' && (
-                  <CheckCircle className="w-5 h-5 text-green-500" />
-                )}
+                <div className="flex items-center space-x-2">
+                  {file.status === 'completed' && (
+                    <CheckCircle className="w-5 h-5 text-green-500" />
+                  )}
+
+                  {file.status === 'error' && (
+                    <AlertCircle className="w-5 h-5 text-red-500" />
+                  )}
+
+                  {file.status === 'locked' && (
+                    <Lock className="w-5 h-5 text-amber-500" />
+                  )}
                 
-                {file.status === 'processing' && (
-                  <div className="w-5 h-5">
-                    <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-blue-600"></div>
-                  </div>
-                )}
+                  {file.status === 'processing' && (
+                    <div className="w-5 h-5">
+                      <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-blue-600"></div>
+                    </div>
+                  )}
                 
-                <button
-                  onClick={() => removeFile(file.id)}
-                  className="p-1 text-gray-400 hover:text-red-500 transition-colors"
-                >
-                  <X className="w-4 h-4" />
-                </button>
+                  <button
+                    onClick={() => removeFile(file.id)}
+                    className="p-1 text-gray-400 hover:text-red-500 transition-colors"
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
+                </div>
               </div>
+
+              {file.status === 'processing' && (
+                <div className="mt-4 h-1.5 bg-gray-200 rounded-full overflow-hidden">
+                  <div
+                    className="h-full bg-gradient-to-r from-indigo-500 to-purple-500 transition-all duration-300"
+                    style={{ width: `${file.progress}%` }}
+                  />
+                </div>
+              )}
+
+              {file.status === 'error' && file.error && (
+                <p className="mt-2 text-sm text-red-600">{file.error}</p>
+              )}
+
+              {file.status === 'locked' && (
+                <form
+                  onSubmit={(e) => handleUnlock(e, file.id)}
+                  className="mt-4 flex items-center space-x-2"
+                >
+                  <input
+                    type="password"
+                    autoComplete="off"
+                    value={passwords[file.id] || ''}
+                    onChange={(e) => setPasswords(prev => ({ ...prev, [file.id]: e.target.value }))}
+                    placeholder="PDF password"
+                    className="flex-1 px-4 py-2 border border-gray-300 rounded-xl focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 text-sm"
+                  />
+                  <button
+                    type="submit"
+                    disabled={!passwords[file.id]}
+                    className="px-4 py-2 bg-gradient-to-r from-indigo-500 to-purple-500 text-white text-sm font-semibold rounded-xl hover:from-indigo-600 hover:to-purple-600 disabled:opacity-50 transition-all duration-200"
+                  >
+                    Unlock
+                  </button>
+                </form>
+              )}
+
+              {file.status === 'locked' && (
+                <p className={`mt-2 text-sm ${file.passwordError === 'incorrect' ? 'text-red-600' : 'text-gray-500'}`}>
+                  {file.passwordError === 'incorrect'
+                    ? 'That password is incorrect. Please try again.'
+                    : 'This statement is password protected.'}
+                </p>
+              )}
             </div>
           ))}
         </div>
@@ -1,20 +1,57 @@
 import React from 'react';
-import { CheckCircle, Clock, AlertCircle, Download } from 'lucide-react';
+import { CheckCircle, Clock, AlertCircle, Download, ShieldCheck, ShieldAlert, XCircle, Cpu } from 'lucide-react';
+import { ValidationReport } from '../utils/statementValidator';
+import { AIUsage, getAISchedulerSettings } from '../utils/aiProviders';
 
 interface ProcessingStep {
   id: string;
   title: string;
   status: 'pending' | 'processing' | 'completed' | 'error';
   description?: string;
+  progress?: number;
+}
+
+interface StatementValidation {
+  fileName: string;
+  report: ValidationReport;
 }
 
 interface ProcessingStatusProps {
   steps: ProcessingStep[];
   onDownload: () => void;
   isComplete: boolean;
+  validations?: StatementValidation[];
+  // Shown while processing runs
+  onCancel?: () => void;
+  aiUsage?: AIUsage;
 }
 
-export const ProcessingStatus: React.FC<ProcessingStatusProps> = ({ steps, onDownload, isComplete }) => {
+const formatCount = (value: number) => value.toLocaleString('en-US');
+
+const AIUsageSummary: React.FC<{ usage: AIUsage }> = ({ usage }) => {
+  const { maxRequests, maxTokens } = getAISchedulerSettings();
+  const tokens = usage.inputTokens + usage.outputTokens;
+
+  return (
+    <div className={`mt-6 rounded-xl p-4 text-sm ${usage.budgetExceeded ? 'bg-yellow-50 text-yellow-800' : 'bg-gray-50 text-gray-700'}`}>
+      <div className="flex items-center space-x-2 font-medium">
+        <Cpu className="w-4 h-4" />
+        <span>AI usage this session</span>
+      </div>
+      <p className="mt-2">
+        {formatCount(usage.requests)}{maxRequests !== undefined && ` of ${formatCount(maxRequests)}`} requests
+        {usage.retries > 0 && ` (${formatCount(usage.retries)} retried)`} •{' '}
+        {usage.estimatedTokens && '~'}{formatCount(tokens)}{maxTokens !== undefined && ` of ${formatCount(maxTokens)}`} tokens
+        {' '}({formatCount(usage.inputTokens)} in, {formatCount(usage.outputTokens)} out)
+      </p>
+      {usage.budgetExceeded && (
+        <p className="mt-2">Budget reached: the remaining steps use built-in rules instead of AI.</p>
+      )}
+    </div>
+  );
+};
+
+export const ProcessingStatus: React.FC<ProcessingStatusProps> = ({ steps, onDownload, isComplete, validations = [], onCancel, aiUsage }) => {
   const getStepIcon = (status: ProcessingStep['status']) => {
     switch (status) {
       case 'completed':
@@ -68,6 +105,14 @@ export const ProcessingStatus: React.FC<ProcessingStatusProps> = ({ steps, onDow
               {step.description && (
                 <p className="text-sm text-gray-600 mt-1">{step.description}</p>
               )}
+              {step.status === 'processing' && step.progress !== undefined && (
+                <div className="mt-2 h-1.5 bg-gray-200 rounded-full overflow-hidden">
+                  <div
+                    className="h-full bg-blue-600 transition-all duration-300"
+                    style={{ width: `${step.progress}%` }}
+                  />
+                </div>
+              )}
             </div>
             
             {index < steps.length - 1 && (
@@ -77,6 +122,56 @@ export const ProcessingStatus: React.FC<ProcessingStatusProps> = ({ steps, onDow
         ))}
       </div>
       
+      {aiUsage && (aiUsage.requests > 0 || aiUsage.budgetExceeded) && <AIUsageSummary usage={aiUsage} />}
+
+      {onCancel && (
+        <button
+          onClick={onCancel}
+          className="mt-6 w-full inline-flex items-center justify-center px-6 py-3 border border-gray-300 text-gray-700 font-medium rounded-xl hover:bg-gray-50 transition-colors"
+        >
+          <XCircle className="w-5 h-5 mr-2" />
+          Cancel Processing
+        </button>
+      )}
+
+      {validations.map(({ fileName, report: validation }, index) => (
+        <div key={`${fileName}-${index}`} className={`mt-6 rounded-xl p-4 ${
+          validation.status === 'reconciled'
+            ? 'bg-green-50 text-green-800'
+            : validation.status === 'mismatch'
+            ? 'bg-red-50 text-red-800'
+            : 'bg-yellow-50 text-yellow-800'
+        }`}>
+          <div className="flex items-center space-x-2 font-medium">
+            {validation.status === 'reconciled' ? (
+              <ShieldCheck className="w-5 h-5" />
+            ) : (
+              <ShieldAlert className="w-5 h-5" />
+            )}
+            <span>
+              {validation.status === 'reconciled'
+                ? 'Statement reconciles'
+                : validation.status === 'partial'
+                ? 'Running balances match, totals not checked'
+                : validation.status === 'mismatch'
+                ? 'Statement does not reconcile'
+                : 'Statement could not be verified'}
+              {validations.length > 1 && ` — ${fileName}`}
+            </span>
+          </div>
+          <p className="text-sm mt-2">
+            {validation.checkedRows} running balances checked • {validation.mismatchedRows} mismatched • {validation.correctedTypes} types corrected
+          </p>
+          {validation.messages.length > 0 && (
+            <ul className="text-sm mt-2 list-disc list-inside space-y-1">
+              {validation.messages.map(message => (
+                <li key={message}>{message}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+      ))}
+
       {isComplete && (
         <div className="mt-8 pt-6 border-t border-gray-200/50">
           <button
@@ -0,0 +1,6 @@
+import { useSyncExternalStore } from 'react';
+import { AIUsage, getAIUsage, subscribeToAIUsage } from '../utils/aiProviders';
+
+// The session's AI request and token counters, updated as requests finish
+export const useAIUsage = (): AIUsage =>
+  useSyncExternalStore(subscribeToAIUsage, getAIUsage);
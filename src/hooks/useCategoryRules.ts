@@ -0,0 +1,94 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import {
+  CategoryRule,
+  deleteCategoryRule,
+  exportCategoryRules,
+  getCategoryRules,
+  parseCategoryRules,
+  ruleFromCorrection,
+  saveCategoryRules
+} from '../utils/categoryRules';
+import { downloadFile } from '../utils/download';
+import { handleCategoryFeedback } from '../utils/transactionCategorizer';
+import { ParsedTransaction } from '../utils/pdfParser';
+
+// Keeps the stored categorization rules in state and reports every change,
+// so parsed statements can be re-categorized
+export const useCategoryRules = (onRulesChange: (rules: CategoryRule[]) => void) => {
+  const [rules, setRules] = useState<CategoryRule[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const onChange = useRef(onRulesChange);
+  onChange.current = onRulesChange;
+
+  const reload = useCallback(async (notify = true) => {
+    const stored = await getCategoryRules();
+    setRules(stored);
+    if (notify) onChange.current(stored);
+    return stored;
+  }, []);
+
+  useEffect(() => {
+    reload(false).catch(err => {
+      console.error('Failed to load categorization rules:', err);
+      setError('Saved rules could not be loaded');
+    });
+  }, [reload]);
+
+  const run = useCallback(async (action: () => Promise<unknown>) => {
+    setError(null);
+    try {
+      await action();
+      await reload();
+    } catch (err) {
+      console.error('Failed to update categorization rules:', err);
+      setError(err instanceof Error ? err.message : 'Failed to update rules');
+    }
+  }, [reload]);
+
+  const saveRule = useCallback(
+    (rule: CategoryRule) => run(() => saveCategoryRules([rule])),
+    [run]
+  );
+
+  const deleteRule = useCallback(
+    (id: string) => run(() => deleteCategoryRule(id)),
+    [run]
+  );
+
+  const importRules = useCallback(
+    (json: string) => run(() => saveCategoryRules(parseCategoryRules(json))),
+    [run]
+  );
+
+  const exportRules = useCallback(() => {
+    downloadFile(exportCategoryRules(rules), 'categorization-rules.json', 'application/json');
+  }, [rules]);
+
+  // A category corrected in the preview becomes a rule for every
+  // transaction from the same merchant. The AI's suggested keywords are
+  // added to the rule, so it also catches other spellings of the merchant.
+  const correctCategory = useCallback(async (transaction: ParsedTransaction, category: string) => {
+    const description = transaction.originalDescription ?? transaction.description;
+    const rule = ruleFromCorrection(
+      rules,
+      { description, amount: transaction.amount, type: transaction.type },
+      category
+    );
+    await run(() => saveCategoryRules([rule]));
+
+    const { keywords } = await handleCategoryFeedback(description, category);
+    if (keywords.length > 0) {
+      await run(() => saveCategoryRules([{ ...rule, suggestedKeywords: keywords }]));
+    }
+  }, [rules, run]);
+
+  return {
+    rules,
+    error,
+    saveRule,
+    deleteRule,
+    importRules,
+    exportRules,
+    correctCategory
+  };
+};
@@ -1,13 +1,25 @@
-import { useState, useCallback } from 'react';
-import { parsePDFStatement, BankStatementData } from '../utils/pdfParser';
-import { exportToExcel, ExportOptions } from '../utils/excelExporter';
+import { useState, useCallback, useRef } from 'react';
+import { BankStatementData, parsePDFStatement, ParseOptions, ParseProgress, PasswordRequiredError } from '../utils/pdfParser';
+import { exportToExcel, ExportFormat, ExportOptions, ExportResult } from '../utils/excelExporter';
+import { exportToCsv } from '../utils/csvExporter';
+import { exportToOfx } from '../utils/ofxExporter';
+import { exportToQif } from '../utils/qifExporter';
+import { validateStatement } from '../utils/statementValidator';
+import { StatementCollection } from '../utils/statementCollection';
+import { mapWithConcurrency } from '../utils/concurrency';
+import { getCategoryCacheStats } from '../utils/categoryCache';
+import { applyRulesToTransactions, CategoryRule } from '../utils/categoryRules';
 
 export interface UploadedFile {
   id: string;
   file: File;
-  status: 'uploading' | 'ready' | 'processing' | 'completed' | 'error';
+  status: 'uploading' | 'ready' | 'processing' | 'completed' | 'error' | 'locked';
   progress: number;
   bankDetected?: string;
+  // Kept in memory only, never persisted or logged
+  password?: string;
+  passwordError?: 'required' | 'incorrect';
+  error?: string;
 }
 
 export interface ProcessingStep {
@@ -15,15 +27,43 @@ export interface ProcessingStep {
   title: string;
   status: 'pending' | 'processing' | 'completed' | 'error';
   description?: string;
+  // 0-100 while the step is running, when the pipeline reports it
+  progress?: number;
 }
 
+const EXPORTERS: Record<ExportFormat, (statements: BankStatementData[], options: ExportOptions) => Promise<ExportResult | void>> = {
+  xlsx: exportToExcel,
+  csv: exportToCsv,
+  ofx: exportToOfx,
+  qfx: exportToOfx,
+  qif: exportToQif
+};
+
+// Statements parsed at the same time; each one can fan out into many AI calls
+const BATCH_CONCURRENCY = 3;
+
+// Pipeline steps in the order parsePDFStatement reports them
+const STAGE_STEPS: Record<ParseProgress['stage'], string> = {
+  'page-extracted': 'extract',
+  'bank-detected': 'detect',
+  'ai-extraction': 'parse',
+  'transactions-parsed': 'parse',
+  'categorizing': 'categorize'
+};
+const STEP_ORDER = Array.from(new Set(Object.values(STAGE_STEPS)));
+
 export const useFileProcessor = () => {
   const [uploadedFiles, setUploadedFiles] = useState<UploadedFile[]>([]);
   const [processingSteps, setProcessingSteps] = useState<ProcessingStep[]>([]);
-  const [bankData, setBankData] = useState<BankStatementData | null>(null);
+  const [statements, setStatements] = useState<StatementCollection>({});
   const [isProcessing, setIsProcessing] = useState(false);
   const [isComplete, setIsComplete] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  // Set after an export that had to leave transactions out
+  const [exportNotice, setExportNotice] = useState<string | null>(null);
+  const [extractionMode, setExtractionMode] = useState<ParseOptions['extractionMode']>('rules');
+  const [merchantAI, setMerchantAI] = useState(false);
+  const abortController = useRef<AbortController | null>(null);
 
   const initializeSteps = useCallback(() => {
     const steps: ProcessingStep[] = [
@@ -68,95 +108,203 @@ export const useFileProcessor = () => {
     return steps;
   }, []);
 
-  const updateStep = useCallback((stepId: string, status: ProcessingStep['status'], description?: string) => {
+  const updateStep = useCallback((stepId: string, status: ProcessingStep['status'], description?: string, progress?: number) => {
     setProcessingSteps(prev => prev.map(step => 
       step.id === stepId 
-        ? { ...step, status, description: description || step.description }
+        ? { ...step, status, description: description || step.description, progress }
         : step
     ));
   }, []);
 
+  const updateFile = useCallback((fileId: string, changes: Partial<UploadedFile>) => {
+    setUploadedFiles(prev => prev.map(f => 
+      f.id === fileId ? { ...f, ...changes } : f
+    ));
+  }, []);
+
+  // Mirror the parser's progress on the file and on the processing steps.
+  // With a single file the earlier steps are done once a later one starts;
+  // in a batch other files may still be on them.
+  const reportProgress = useCallback((file: UploadedFile, event: ParseProgress, batchSize: number) => {
+    const label = batchSize > 1 ? `${file.file.name}: ` : '';
+    const stepId = STAGE_STEPS[event.stage];
+
+    if (batchSize === 1) {
+      STEP_ORDER.slice(0, STEP_ORDER.indexOf(stepId)).forEach(id => updateStep(id, 'completed'));
+    }
+
+    switch (event.stage) {
+      case 'page-extracted':
+        updateFile(file.id, { progress: 10 + Math.round((40 * event.page) / event.totalPages) });
+        updateStep(
+          stepId,
+          'processing',
+          `${label}Page ${event.page} of ${event.totalPages} extracted${event.source === 'ocr' ? ' with OCR' : ''}`,
+          Math.round((100 * event.page) / event.totalPages)
+        );
+        break;
+      case 'bank-detected':
+        updateFile(file.id, { bankDetected: event.bankName, progress: 55 });
+        updateStep(stepId, 'processing', `${label}${event.bankName} detected`);
+        break;
+      case 'ai-extraction':
+        updateStep(
+          stepId,
+          'processing',
+          `${label}AI extraction: part ${event.chunk} of ${event.totalChunks}`,
+          Math.round((100 * event.chunk) / event.totalChunks)
+        );
+        break;
+      case 'transactions-parsed':
+        updateFile(file.id, { progress: 60 });
+        updateStep(stepId, 'processing', `${label}${event.count} transactions parsed`);
+        break;
+      case 'categorizing':
+        updateFile(file.id, { progress: 60 + Math.round((35 * event.done) / event.total) });
+        updateStep(
+          stepId,
+          'processing',
+          `${label}Categorized ${event.done} of ${event.total} transactions`,
+          Math.round((100 * event.done) / event.total)
+        );
+        break;
+    }
+  }, [updateFile, updateStep]);
+
+  const processFile = useCallback(async (file: UploadedFile, signal: AbortSignal, batchSize: number) => {
+    // Files not yet started when the batch is cancelled stay ready
+    signal.throwIfAborted();
+    updateFile(file.id, { status: 'processing', progress: 5, error: undefined });
+
+    try {
+      const parsedData = await parsePDFStatement(file.file, {
+        password: file.password,
+        signal,
+        extractionMode,
+        merchantAI,
+        onProgress: event => reportProgress(file, event, batchSize)
+      });
+      updateFile(file.id, { bankDetected: parsedData.bankName, progress: 90 });
+
+      const validatedData = validateStatement(parsedData);
+      setStatements(prev => ({ ...prev, [file.id]: validatedData }));
+      updateFile(file.id, { status: 'completed', progress: 100 });
+      return validatedData;
+    } catch (err) {
+      if (signal.aborted) {
+        updateFile(file.id, { status: 'ready', progress: 0 });
+      } else if (err instanceof PasswordRequiredError) {
+        updateFile(file.id, {
+          status: 'locked',
+          progress: 0,
+          password: undefined,
+          passwordError: err.reason
+        });
+      } else {
+        updateFile(file.id, {
+          status: 'error',
+          progress: 0,
+          error: err instanceof Error ? err.message : 'An unknown error occurred'
+        });
+      }
+      throw err;
+    }
+  }, [updateFile, reportProgress, extractionMode, merchantAI]);
+
   const processFiles = useCallback(async () => {
-    if (uploadedFiles.length === 0) return;
+    // Completed statements are kept; locked files wait for a password
+    const pending = uploadedFiles.filter(f => f.status === 'ready' || f.status === 'error');
+    if (pending.length === 0) return;
 
     setIsProcessing(true);
     setIsComplete(false);
     setError(null);
-    setBankData(null);
 
-    const steps = initializeSteps();
+    initializeSteps();
+    const total = pending.length;
+    const controller = new AbortController();
+    abortController.current = controller;
+
+    updateStep('extract', 'processing', `Processing ${total} statement${total === 1 ? '' : 's'}...`);
 
     try {
-      // For now, process the first file (can be extended for multiple files)
-      const file = uploadedFiles[0];
-      
-      // Update file status
-      setUploadedFiles(prev => prev.map(f => 
-        f.id === file.id ? { ...f, status: 'processing' } : f
-      ));
+      const cacheBefore = await getCategoryCacheStats();
+      const results = await mapWithConcurrency(pending, BATCH_CONCURRENCY, file =>
+        processFile(file, controller.signal, total)
+      );
 
-      // Step 1: Text Extraction
-      updateStep('extract', 'processing', 'Reading PDF content...');
-      await new Promise(resolve => setTimeout(resolve, 1000)); // Simulate processing time
-      
-      // Step 2: Bank Detection
-      updateStep('extract', 'completed');
-      updateStep('detect', 'processing', 'Analyzing bank format...');
-      await new Promise(resolve => setTimeout(resolve, 800));
-      
-      // Step 3: Parse PDF
-      updateStep('detect', 'completed');
-      updateStep('parse', 'processing', 'Extracting transactions...');
-      
-      const parsedData = await parsePDFStatement(file.file);
-      
-      // Update file with detected bank
-      setUploadedFiles(prev => prev.map(f => 
-        f.id === file.id ? { ...f, bankDetected: parsedData.bankName } : f
-      ));
+      if (controller.signal.aborted) {
+        setProcessingSteps(prev => prev.map(step =>
+          step.status === 'processing' || step.status === 'pending'
+            ? { ...step, status: 'error', description: 'Cancelled', progress: undefined }
+            : step
+        ));
+        setIsComplete(results.some(r => r.status === 'fulfilled') || Object.keys(statements).length > 0);
+        return;
+      }
 
-      // Step 4: Categorization
-      updateStep('parse', 'completed');
-      updateStep('categorize', 'processing', 'Categorizing transactions...');
-      await new Promise(resolve => setTimeout(resolve, 600));
-      
-      // Step 5: Validation
-      updateStep('categorize', 'completed');
-      updateStep('validate', 'processing', 'Validating data integrity...');
-      await new Promise(resolve => setTimeout(resolve, 400));
-      
-      updateStep('validate', 'completed', 'Data validation complete');
-      
-      setBankData(parsedData);
-      
-      // Update file status to completed
-      setUploadedFiles(prev => prev.map(f => 
-        f.id === file.id ? { ...f, status: 'completed', progress: 100 } : f
-      ));
-      
-      setIsComplete(true);
-      
-    } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred';
-      setError(errorMessage);
-      
-      // Mark current processing step as error
-      const currentStep = steps.find(step => step.status === 'processing');
-      if (currentStep) {
-        updateStep(currentStep.id, 'error', errorMessage);
+      const succeeded = results.flatMap(r => r.status === 'fulfilled' ? [r.value] : []);
+      const locked = results.filter(r => r.status === 'rejected' && r.reason instanceof PasswordRequiredError).length;
+      const failed = results.length - succeeded.length - locked;
+
+      const stepStatus = succeeded.length > 0 ? 'completed' : 'error';
+      updateStep('extract', stepStatus, `Processed ${succeeded.length} of ${total} statements`);
+      updateStep('detect', stepStatus, 'Bank formats identified');
+      updateStep('parse', stepStatus, `${succeeded.reduce((sum, s) => sum + s.transactions.length, 0)} transactions extracted`);
+      const cacheAfter = await getCategoryCacheStats();
+      const cacheHits = cacheAfter.hits - cacheBefore.hits;
+      const cacheMisses = cacheAfter.misses - cacheBefore.misses;
+      updateStep(
+        'categorize',
+        stepStatus,
+        cacheHits + cacheMisses > 0
+          ? `Transactions categorized (${cacheHits} merchants from cache, ${cacheMisses} sent to AI)`
+          : 'Transactions categorized'
+      );
+
+      const reconciled = succeeded.filter(s => s.validation.status === 'reconciled').length;
+      updateStep(
+        'validate',
+        stepStatus,
+        succeeded.length === 1
+          ? succeeded[0].validation.status === 'reconciled'
+            ? `Statement reconciles (${succeeded[0].validation.checkedRows} running balances checked)`
+            : succeeded[0].validation.messages[0]
+          : `${reconciled} of ${succeeded.length} statements reconcile`
+      );
+
+      const problems = [
+        failed > 0 ? `${failed} of ${total} statements could not be processed` : '',
+        locked > 0 ? `${locked} password-protected statement${locked === 1 ? ' needs' : 's need'} a password; enter it next to the file to unlock it` : ''
+      ].filter(Boolean);
+      if (problems.length > 0) {
+        setError(problems.join('. ') + '.');
       }
-      
-      // Update file status to error
-      setUploadedFiles(prev => prev.map(f => 
-        f.status === 'processing' ? { ...f, status: 'error' } : f
+
+      setIsComplete(succeeded.length > 0 || uploadedFiles.some(f => f.status === 'completed'));
+    } catch (err) {
+      // Per-file failures are settled above; this is the run itself failing
+      console.error('Processing failed', err);
+      const message = err instanceof Error ? err.message : 'An unknown error occurred';
+      setProcessingSteps(prev => prev.map(step =>
+        step.status === 'processing' || step.status === 'pending'
+          ? { ...step, status: 'error', description: message, progress: undefined }
+          : step
       ));
+      setError(`Processing failed: ${message}`);
     } finally {
+      abortController.current = null;
       setIsProcessing(false);
     }
-  }, [uploadedFiles, initializeSteps, updateStep]);
+  }, [uploadedFiles, statements, initializeSteps, updateStep, processFile]);
 
-  const downloadExcel = useCallback((options?: ExportOptions) => {
-    if (!bankData) return;
+  const cancelProcessing = useCallback(() => {
+    abortController.current?.abort();
+  }, []);
+
+  const downloadExport = useCallback(async (options?: ExportOptions) => {
+    const completed = Object.values(statements);
+    if (completed.length === 0) return;
     
     const defaultOptions: ExportOptions = {
       includeCategories: true,
@@ -167,28 +315,68 @@ export const useFileProcessor = () => {
       includeSummary: true
     };
     
-    exportToExcel(bankData, options || defaultOptions);
-  }, [bankData]);
+    const exportOptions = options || defaultOptions;
+    setExportNotice(null);
+    try {
+      const result = await EXPORTERS[exportOptions.format || 'xlsx'](completed, exportOptions);
+      const skipped = result ? result.skippedTransactions : 0;
+      if (skipped > 0) {
+        setExportNotice(`${skipped} transaction${skipped === 1 ? '' : 's'} without a date ${skipped === 1 ? 'was' : 'were'} left out of the export.`);
+      }
+    } catch (err) {
+      console.error('Export failed', err);
+      setError(`Export failed: ${err instanceof Error ? err.message : 'An unknown error occurred'}`);
+    }
+  }, [statements]);
+
+  // Re-categorize the parsed statements after the user's rules change
+  const applyRules = useCallback((rules: CategoryRule[]) => {
+    setStatements(prev => Object.fromEntries(
+      Object.entries(prev).map(([id, data]) => [
+        id,
+        { ...data, transactions: applyRulesToTransactions(rules, data.transactions) }
+      ])
+    ));
+  }, []);
+
+  const unlockFile = useCallback((fileId: string, password: string) => {
+    setUploadedFiles(prev => prev.map(f => 
+      f.id === fileId
+        ? { ...f, status: 'ready', password, passwordError: undefined }
+        : f
+    ));
+    setError(null);
+  }, []);
 
   const resetProcessor = useCallback(() => {
+    abortController.current?.abort();
     setUploadedFiles([]);
     setProcessingSteps([]);
-    setBankData(null);
+    setStatements({});
     setIsProcessing(false);
     setIsComplete(false);
     setError(null);
+    setExportNotice(null);
   }, []);
 
   return {
     uploadedFiles,
     setUploadedFiles,
     processingSteps,
-    bankData,
+    statements,
+    extractionMode,
+    setExtractionMode,
+    merchantAI,
+    setMerchantAI,
     isProcessing,
     isComplete,
     error,
+    exportNotice,
     processFiles,
-    downloadExcel,
+    cancelProcessing,
+    downloadExport,
+    applyRules,
+    unlockFile,
     resetProcessor
   };
 };
\ No newline at end of file
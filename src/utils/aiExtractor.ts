@@ -0,0 +1,109 @@
+import { callTaskAI, STATEMENT_CHUNK_CHARS } from "./aiProviders";
+import { RawTransaction } from "./columnExtractor";
+import { layoutToText, PageLayout } from "./textLayout";
+
+export interface ExtractedMetadata {
+  bankName?: string;
+  accountNumber?: string;
+  statementPeriod?: string;
+  openingBalance?: number;
+  closingBalance?: number;
+  currency?: string;
+}
+
+export interface AIExtraction {
+  // Dates exactly as printed; debits carry a negative amount
+  transactions: RawTransaction[];
+  metadata: ExtractedMetadata;
+}
+
+export interface AIExtractionOptions {
+  signal?: AbortSignal;
+  onChunk?: (chunk: number, totalChunks: number) => void;
+}
+
+// Split the statement into chunks on page boundaries, and on line
+// boundaries for pages too long to send whole
+function chunkText(layouts: PageLayout[]): string[] {
+  const lines = layouts.flatMap((layout) => [
+    `--- Page ${layout.pageNumber} ---`,
+    ...layoutToText(layout).split("\n"),
+  ]);
+
+  const chunks: string[] = [];
+  let current = "";
+  for (const line of lines) {
+    const startsPage = line.startsWith("--- Page ");
+    if (
+      current &&
+      (current.length + line.length > STATEMENT_CHUNK_CHARS ||
+        (startsPage && current.length > STATEMENT_CHUNK_CHARS / 2))
+    ) {
+      chunks.push(current);
+      current = "";
+    }
+    current += `${line}\n`;
+  }
+  if (current.trim()) chunks.push(current);
+  return chunks;
+}
+
+// Extract transactions and statement details from the page text with the
+// active AI provider, one chunk of pages per request
+export async function extractStatementAI(
+  layouts: PageLayout[],
+  { signal, onChunk }: AIExtractionOptions = {}
+): Promise<AIExtraction> {
+  const chunks = chunkText(layouts);
+  const transactions: RawTransaction[] = [];
+  const metadata: ExtractedMetadata = {};
+
+  for (let i = 0; i < chunks.length; i++) {
+    signal?.throwIfAborted();
+    const result = await callTaskAI<{
+      metadata?: ExtractedMetadata;
+      transactions: Array<{
+        date: string;
+        description: string;
+        amount: number;
+        balance?: number;
+      }>;
+    }>(
+      {
+        task: "statement-extraction",
+        input: { text: chunks[i], chunk: i + 1, totalChunks: chunks.length },
+      },
+      { signal }
+    );
+
+    transactions.push(
+      ...result.transactions.map((t) => ({
+        date: t.date.trim(),
+        description: t.description.trim(),
+        amount: t.amount,
+        balance: t.balance,
+      }))
+    );
+
+    // Earlier chunks win, except that the closing balance is usually on
+    // the last page
+    const { closingBalance, ...rest } = result.metadata || {};
+    for (const [key, value] of Object.entries(rest)) {
+      const field = key as keyof typeof rest;
+      if (
+        metadata[field] === undefined &&
+        value !== undefined &&
+        value !== ""
+      ) {
+        Object.assign(metadata, { [field]: value });
+      }
+    }
+    if (closingBalance !== undefined) {
+      metadata.closingBalance = closingBalance;
+    }
+
+    onChunk?.(i + 1, chunks.length);
+  }
+
+  return { transactions, metadata };
+}
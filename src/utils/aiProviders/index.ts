@@ -0,0 +1,72 @@
+export { createMockProvider } from "./mock";
+export type { MockResponse } from "./mock";
+export { AIOfflineError, offlineProvider } from "./offline";
+export { createOpenAICompatibleProvider } from "./openAICompatible";
+export { createProxyProvider } from "./proxy";
+export { AI_TASKS, isAITask, PROXY_BASE_PATH } from "./proxyProtocol";
+export type {
+  ProxyErrorResponse,
+  ProxyRequest,
+  ProxyResponse,
+} from "./proxyProtocol";
+export {
+  findHolderNames,
+  redactStrings,
+  redactText,
+  registerHolderNames,
+} from "./redaction";
+export type { PIIKind, RedactedValue, Redaction } from "./redaction";
+export {
+  AIRequestDeclinedError,
+  isRequestReviewEnabled,
+  setRequestReviewEnabled,
+  setRequestReviewer,
+} from "./review";
+export type { AIRequestPreview, RequestReviewer } from "./review";
+export {
+  callAI,
+  createAIProvider,
+  getAIProvider,
+  getAIProviderConfig,
+  isAIEnabled,
+  setAIProvider,
+} from "./registry";
+export {
+  AIBudgetExceededError,
+  AIHttpError,
+  DEFAULT_SCHEDULER_SETTINGS,
+  getAISchedulerSettings,
+  getAIUsage,
+  isAIBudgetExceeded,
+  resetAIUsage,
+  retryAfterMs,
+  setAISchedulerSettings,
+  subscribeToAIUsage,
+} from "./scheduler";
+export type { AISchedulerSettings, AIUsage } from "./scheduler";
+export {
+  callStructuredAI,
+  callTaskAI,
+  describeAIFailure,
+  extractJson,
+  StructuredOutputError,
+  validateSchema,
+} from "./structured";
+export type { StructuredRequestOptions } from "./structured";
+export {
+  BANK_DETECTION_CHARS,
+  buildTaskPrompt,
+  parseTaskInput,
+  STATEMENT_CHUNK_CHARS,
+} from "./tasks";
+export type {
+  AIProvider,
+  AIProviderConfig,
+  AIRequestOptions,
+  AITask,
+  AITaskInput,
+  AITaskInputs,
+  AITaskRequest,
+  JsonSchema,
+  TokenUsage,
+} from "./types";
@@ -0,0 +1,35 @@
+import { AIProvider } from "./types";
+
+export interface MockResponse {
+  // Matched against the prompt; the first matching entry answers
+  match: string | RegExp;
+  response: string;
+}
+
+// Deterministic provider for tests and demos: answers from a fixed table
+// and records every prompt it receives
+export function createMockProvider(
+  responses: MockResponse[] = [],
+  fallback = ""
+): AIProvider & { prompts: string[] } {
+  const prompts: string[] = [];
+
+  return {
+    id: "mock",
+    name: "Mock model",
+    prompts,
+    async generate(prompt, options = {}) {
+      options.signal?.throwIfAborted();
+      prompts.push(prompt);
+
+      const entry = responses.find(({ match }) =>
+        typeof match === "string" ? prompt.includes(match) : match.test(prompt)
+      );
+      const content = entry ? entry.response : fallback;
+      if (!content) {
+        throw new Error("No response from AI API");
+      }
+      return content;
+    },
+  };
+}
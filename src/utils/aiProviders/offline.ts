@@ -0,0 +1,20 @@
+import { AIProvider } from "./types";
+
+export const OFFLINE_PROVIDER_ID = "offline";
+
+export class AIOfflineError extends Error {
+  constructor() {
+    super("AI is disabled in offline mode");
+    this.name = "AIOfflineError";
+  }
+}
+
+// Never contacts a model. Callers check isAIEnabled() and take their
+// rule-based paths instead; anything that still calls through gets an error.
+export const offlineProvider: AIProvider = {
+  id: OFFLINE_PROVIDER_ID,
+  name: "Offline (no AI)",
+  async generate() {
+    throw new AIOfflineError();
+  },
+};
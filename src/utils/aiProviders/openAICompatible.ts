@@ -0,0 +1,70 @@
+import { AIHttpError, retryAfterMs } from "./scheduler";
+import { AIProvider } from "./types";
+
+interface ChatCompletionResponse {
+  choices?: Array<{ message?: { content?: string | null } }>;
+  usage?: { prompt_tokens?: number; completion_tokens?: number };
+}
+
+// Any server implementing the OpenAI chat completions API, such as a
+// self-hosted model behind Ollama, llama.cpp or vLLM
+export function createOpenAICompatibleProvider(config: {
+  baseUrl: string;
+  model: string;
+  apiKey?: string;
+}): AIProvider {
+  const endpoint = `${config.baseUrl.replace(/\/+$/, "")}/chat/completions`;
+
+  return {
+    id: "openai-compatible",
+    name: `${config.model} (${config.baseUrl})`,
+    async generate(prompt, options = {}) {
+      const response = await fetch(endpoint, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(config.apiKey
+            ? { Authorization: `Bearer ${config.apiKey}` }
+            : {}),
+        },
+        body: JSON.stringify({
+          model: config.model,
+          messages: [{ role: "user", content: prompt }],
+          ...(options.responseSchema
+            ? {
+                response_format: {
+                  type: "json_schema",
+                  json_schema: {
+                    name: "response",
+                    schema: options.responseSchema,
+                  },
+                },
+              }
+            : {}),
+        }),
+        signal: options.signal,
+      });
+
+      if (!response.ok) {
+        throw new AIHttpError(
+          response.status,
+          `AI endpoint responded with ${response.status} ${response.statusText}`,
+          retryAfterMs(response.headers.get("Retry-After"))
+        );
+      }
+
+      const data: ChatCompletionResponse = await response.json();
+      if (data.usage) {
+        options.onUsage?.({
+          inputTokens: data.usage.prompt_tokens || 0,
+          outputTokens: data.usage.completion_tokens || 0,
+        });
+      }
+      const content = data.choices?.[0]?.message?.content;
+      if (!content) {
+        throw new Error("No response from AI API");
+      }
+      return content;
+    },
+  };
+}
@@ -0,0 +1,66 @@
+import {
+  PROXY_BASE_PATH,
+  ProxyErrorResponse,
+  ProxyRequest,
+  ProxyResponse,
+} from "./proxyProtocol";
+import { AIHttpError, retryAfterMs } from "./scheduler";
+import { PREVIOUS_ERROR_CHARS } from "./tasks";
+import { AIProvider, AIRequestOptions } from "./types";
+
+function requestBody(options: AIRequestOptions): ProxyRequest {
+  if (!options.task || !options.input) {
+    throw new Error("AI requests through the server need a task input");
+  }
+  return {
+    input: options.input,
+    ...(options.previousError
+      ? { previousError: options.previousError.slice(0, PREVIOUS_ERROR_CHARS) }
+      : {}),
+  };
+}
+
+// Sends task inputs to the app's own server, which holds the API key,
+// builds the prompt and forwards it to the model
+export function createProxyProvider(
+  baseUrl: string = PROXY_BASE_PATH
+): AIProvider {
+  const root = baseUrl.replace(/\/+$/, "");
+
+  return {
+    id: "server",
+    name: "AI server",
+    describeRequest(_prompt, options = {}) {
+      return JSON.stringify(requestBody(options), null, 2);
+    },
+    async generate(_prompt, options = {}) {
+      const body = requestBody(options);
+      const response = await fetch(`${root}/${options.task}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+        signal: options.signal,
+      });
+
+      if (!response.ok) {
+        const data: Partial<ProxyErrorResponse> = await response
+          .json()
+          .catch(() => ({}));
+        throw new AIHttpError(
+          response.status,
+          `AI server responded with ${response.status}${
+            data.error ? `: ${data.error}` : ` ${response.statusText}`
+          }`,
+          retryAfterMs(response.headers.get("Retry-After"))
+        );
+      }
+
+      const data: ProxyResponse = await response.json();
+      if (data.usage) options.onUsage?.(data.usage);
+      if (!data.text) {
+        throw new Error("No response from AI API");
+      }
+      return data.text;
+    },
+  };
+}
@@ -0,0 +1,37 @@
+import { AITask, AITaskInput, TokenUsage } from "./types";
+
+// Shared by the browser provider and the server in /server
+
+export const PROXY_BASE_PATH = "/api/ai";
+
+// Each task has its own endpoint, POST `${PROXY_BASE_PATH}/${task}`
+export const AI_TASKS: readonly AITask[] = [
+  "bank-detection",
+  "column-inference",
+  "categorization",
+  "category-feedback",
+  "statement-extraction",
+  "merchant-extraction",
+];
+
+// The server builds the prompt and schema from the input; no other fields
+// are accepted
+export interface ProxyRequest {
+  input: AITaskInput;
+  // At most PREVIOUS_ERROR_CHARS long
+  previousError?: string;
+}
+
+export interface ProxyResponse {
+  text: string;
+  // As reported by the model
+  usage?: TokenUsage;
+}
+
+export interface ProxyErrorResponse {
+  error: string;
+}
+
+export function isAITask(value: string): value is AITask {
+  return (AI_TASKS as readonly string[]).includes(value);
+}
@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import { redactText } from "./redaction";
+
+describe("redactText", () => {
+  it("replaces contact details with numbered placeholders", () => {
+    const redaction = redactText(
+      "Contact jane@example.com or +44 20 7946 0958, IBAN GB29 NWBK 6016 1331 9268 19"
+    );
+    expect(redaction.text).toBe(
+      "Contact [EMAIL_1] or [PHONE_1], IBAN [IBAN_1]"
+    );
+    expect(redaction.values.map((v) => v.kind)).toEqual([
+      "email",
+      "iban",
+      "phone",
+    ]);
+  });
+
+  it("redacts the holder name and address in a mailing block", () => {
+    const redaction = redactText(
+      "Jane Smith\n12 High Street\nLondon SW1A 1AA\nCard 4111 1111 1111 1111 from Jane Smith"
+    );
+    expect(redaction.text).toBe(
+      "[NAME_1]\n[ADDRESS_1]\nLondon [ADDRESS_2]\nCard [CARD_1] from [NAME_1]"
+    );
+  });
+
+  it("restores the original values in a reply", () => {
+    const redaction = redactText("Paid by jane@example.com");
+    expect(redaction.restore('{"payer":"[EMAIL_1]"}')).toBe(
+      '{"payer":"jane@example.com"}'
+    );
+  });
+
+  it("redacts labelled account numbers", () => {
+    expect(redactText("Account Number: 1234 5678").text).toBe(
+      "Account Number: [ACCOUNT_1]"
+    );
+    expect(redactText("Sort Code 12-34-56").text).toBe("Sort Code [ACCOUNT_1]");
+    expect(redactText("Acct # ****1234").text).toBe("Acct # [ACCOUNT_1]");
+  });
+
+  it("leaves words after an account label alone", () => {
+    const text = "Account Summary for January 2024";
+    expect(redactText(text).text).toBe(text);
+  });
+
+  it("does not run into a following amount", () => {
+    const redaction = redactText("Transfer from account ending 4321 100.00");
+    expect(redaction.text).toBe(
+      "Transfer from account ending [ACCOUNT_1] 100.00"
+    );
+    expect(redaction.restore(redaction.text)).toBe(
+      "Transfer from account ending 4321 100.00"
+    );
+  });
+
+  it.each([
+    "01/05/2024 TESCO STORES 45.00 DR 1,200.00",
+    "12 Jan CARD PAYMENT TO SAINSBURYS 23.10 DR",
+    "03 Feb REFUND AMAZON 12.99 CT 1,212.99",
+    "15.03.2024 10 ST JAMES PLACE 8.50 Dr",
+    "Ref 020 7946 0958",
+    "REF NO: 0161 496 0000 PAYMENT 30.00",
+  ])("leaves %s unchanged", (line) => {
+    expect(redactText(line).text).toBe(line);
+  });
+
+  it("still redacts title case addresses and other phone numbers", () => {
+    expect(redactText("Deliver to 221B Baker Street, Flat 2").text).toBe(
+      "Deliver to [ADDRESS_1]"
+    );
+    expect(redactText("Call 020 7946 0958 for help").text).toBe(
+      "Call [PHONE_1] for help"
+    );
+  });
+});
@@ -0,0 +1,190 @@
+export type PIIKind =
+  | "iban"
+  | "card"
+  | "account"
+  | "email"
+  | "phone"
+  | "address"
+  | "name";
+
+export interface RedactedValue {
+  placeholder: string;
+  kind: PIIKind;
+  value: string;
+}
+
+export interface Redaction {
+  // The text with every sensitive value replaced by its placeholder
+  text: string;
+  values: RedactedValue[];
+  // Put the original values back into text that uses the placeholders
+  restore: (text: string) => string;
+}
+
+const STREET_TYPE_NAMES =
+  "Street|St|Avenue|Ave|Road|Rd|Boulevard|Blvd|Lane|Ln|Drive|Dr|Court|Ct|Way|Place|Pl|Terrace|Close|Crescent|Parkway|Pkwy|Highway|Hwy|Square|Sq";
+// Title case only: statement lines are often all caps, where DR and CT
+// are debit and credit markers. The house number cannot be part of a
+// date or amount, and no amount comes before the street type.
+const STREET_LINE = `(?<![\\w/.,])\\d{1,5}[A-Za-z]?\\s+(?:(?!\\d+[.,]\\d)[A-Za-z0-9.'-]+\\s+){0,4}(?:${STREET_TYPE_NAMES})\\b\\.?(?:,?\\s*(?:Apt|Suite|Unit|Flat|#)\\s*[A-Za-z0-9-]+)?`;
+// Reference numbers can look like phone numbers
+const REFERENCE_LABEL =
+  "\\b(?:Ref|REF|Reference|REFERENCE)(?:\\s*(?:No|NO)\\.?)?\\s*[:#]?\\s*";
+const PERSON_NAME = "[A-Z][A-Za-z.'-]*(?:[ \\t]+[A-Z][A-Za-z.'-]*){1,3}";
+
+// Applied in order; earlier kinds win where patterns overlap, e.g. an
+// IBAN is not also redacted as an account number. Matches failing
+// `accept` are left alone.
+const PATTERNS: Array<{
+  kind: PIIKind;
+  pattern: RegExp;
+  accept?: (match: string) => boolean;
+}> = [
+  {
+    kind: "email",
+    pattern: /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g,
+  },
+  {
+    kind: "iban",
+    pattern: /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]{4}){2,7}(?: ?[A-Z0-9]{1,3})?\b/g,
+  },
+  {
+    kind: "card",
+    pattern: /\b(?:\d{4}[ -]){3}\d{1,7}\b|\b\d{4}[ -]\d{6}[ -]\d{5}\b/g,
+  },
+  {
+    // Numbers after an account, sort code, routing or customer label:
+    // digits and mask characters with single separators, stopping short
+    // of a following amount
+    kind: "account",
+    pattern:
+      /(?<=\b(?:Account|Acct|A\/C|Sort Code|Routing|Customer|Member)(?:\s+(?:No\.?|Number|ID|ending(?:\s+in)?))?\s*[:#]?\s*)[\dXx*•][\dXx*•#]*(?:[ -][\dXx*•#]+)*(?![\dXx*•#]|[.,]\d)/gi,
+    accept: (match) => (match.match(/\d/g) || []).length >= 4,
+  },
+  {
+    // Long digit runs and masked numbers such as ****1234
+    kind: "account",
+    pattern: /(?<![\d.,])\d{8,}(?![\d]|[.,]\d)|[*Xx•]{2,}[ -]?\d{3,}\b/g,
+  },
+  {
+    kind: "phone",
+    pattern: new RegExp(
+      `(?<!${REFERENCE_LABEL})(?:(?:\\+?\\d{1,3}[ .-]?)?\\(?\\b\\d{3}\\)?[ .-]\\d{3}[ .-]\\d{4}\\b|\\+\\d{1,3}(?:[ .-]?\\d){7,12}\\b|\\b0\\d{2,4}[ -]\\d{3,4}[ -]?\\d{3,4}\\b)`,
+      "g"
+    ),
+  },
+  {
+    kind: "address",
+    pattern: new RegExp(STREET_LINE, "g"),
+  },
+  {
+    // "Springfield, IL 62704" and PO boxes
+    kind: "address",
+    pattern:
+      /\b[A-Z][A-Za-z. ]+,\s*[A-Z]{2}\s+\d{5}(?:-\d{4})?\b|\bP\.?\s?O\.?\s+Box\s+\d+\b/g,
+  },
+  {
+    // UK postcodes
+    kind: "address",
+    pattern: /\b[A-Z]{1,2}\d[A-Z\d]?\s*\d[A-Z]{2}\b/g,
+  },
+];
+
+const LABELLED_NAME = new RegExp(
+  `(?:Account Holder|Account Name|Customer Name|Name)\\s*:\\s*(${PERSON_NAME})`,
+  "g"
+);
+// A name on the line above a street address, as in a mailing block
+const NAME_ABOVE_ADDRESS = new RegExp(
+  `^[ \\t]*(${PERSON_NAME})[ \\t]*\\n[ \\t]*(?=${STREET_LINE})`,
+  "gm"
+);
+
+// Holder names seen in statements this session, redacted from every
+// request, including ones without the statement header such as
+// categorization batches
+const knownNames = new Set<string>();
+
+export function findHolderNames(text: string): string[] {
+  const names = [
+    ...Array.from(text.matchAll(LABELLED_NAME), (m) => m[1]),
+    ...Array.from(text.matchAll(NAME_ABOVE_ADDRESS), (m) => m[1]),
+  ];
+  return Array.from(new Set(names.map((name) => name.trim())));
+}
+
+export function registerHolderNames(names: string[]): void {
+  names.forEach((name) => knownNames.add(name));
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// Replace account numbers, IBANs, card numbers, emails, phone numbers,
+// postal addresses and holder names with numbered placeholders such as
+// [ACCOUNT_1]. The same value always gets the same placeholder, including
+// values already in `values`, which new ones are added to.
+export function redactText(
+  text: string,
+  values: RedactedValue[] = []
+): Redaction {
+  const placeholderFor = (kind: PIIKind, value: string): string => {
+    const existing = values.find((v) => v.kind === kind && v.value === value);
+    if (existing) return existing.placeholder;
+
+    const count = values.filter((v) => v.kind === kind).length + 1;
+    const placeholder = `[${kind.toUpperCase()}_${count}]`;
+    values.push({ placeholder, kind, value });
+    return placeholder;
+  };
+
+  const names = new Set([
+    ...knownNames,
+    ...values.filter((v) => v.kind === "name").map((v) => v.value),
+    ...findHolderNames(text),
+  ]);
+  let redacted = text;
+  for (const name of [...names].sort((a, b) => b.length - a.length)) {
+    redacted = redacted.replace(
+      new RegExp(`\\b${escapeRegExp(name).replace(/\s+/g, "\\s+")}\\b`, "gi"),
+      (match) => placeholderFor("name", match)
+    );
+  }
+  for (const { kind, pattern, accept } of PATTERNS) {
+    redacted = redacted.replace(pattern, (match) =>
+      // Leave placeholders from earlier kinds intact
+      /^\[[A-Z]+_\d+\]$/.test(match) || (accept && !accept(match))
+        ? match
+        : placeholderFor(kind, match)
+    );
+  }
+
+  const restore = (reply: string) =>
+    values.reduce(
+      (result, { placeholder, value }) => result.split(placeholder).join(value),
+      reply
+    );
+
+  return { text: redacted, values, restore };
+}
+
+// Redact every string in a JSON value, such as a task input, with the
+// same placeholders as `values`
+export function redactStrings<T>(value: T, values: RedactedValue[]): T {
+  if (typeof value === "string") {
+    return redactText(value, values).text as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => redactStrings(item, values)) as T;
+  }
+  if (typeof value === "object" && value !== null) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        key,
+        redactStrings(item, values),
+      ])
+    ) as T;
+  }
+  return value;
+}
@@ -0,0 +1,67 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { createMockProvider } from "./mock";
+import { createProxyProvider } from "./proxy";
+import { callAI, setAIProvider } from "./registry";
+import {
+  AIRequestDeclinedError,
+  AIRequestPreview,
+  setRequestReviewer,
+} from "./review";
+
+const input = {
+  description: "TRANSFER TO jane@example.com",
+  category: "Transfers",
+};
+
+function declineAll(previews: AIRequestPreview[]): void {
+  setRequestReviewer(async (preview) => {
+    previews.push(preview);
+    return false;
+  });
+}
+
+afterEach(() => setRequestReviewer(null));
+
+describe("callAI review", () => {
+  it("shows the task input the server provider sends", async () => {
+    const previews: AIRequestPreview[] = [];
+    declineAll(previews);
+    setAIProvider(createProxyProvider());
+
+    await expect(
+      callAI("Categorize TRANSFER TO jane@example.com, phone 020 7946 0958", {
+        task: "category-feedback",
+        input,
+      })
+    ).rejects.toThrow(AIRequestDeclinedError);
+    expect(previews[0].text).toBe(
+      JSON.stringify(
+        {
+          input: {
+            description: "TRANSFER TO [EMAIL_1]",
+            category: "Transfers",
+          },
+        },
+        null,
+        2
+      )
+    );
+    expect(previews[0].redacted).toEqual([
+      { placeholder: "[EMAIL_1]", kind: "email", value: "jane@example.com" },
+    ]);
+  });
+
+  it("shows the prompt for providers that send it", async () => {
+    const previews: AIRequestPreview[] = [];
+    declineAll(previews);
+    setAIProvider(createMockProvider());
+
+    await expect(
+      callAI("Categorize TRANSFER TO jane@example.com", {
+        task: "category-feedback",
+        input,
+      })
+    ).rejects.toThrow(AIRequestDeclinedError);
+    expect(previews[0].text).toBe("Categorize TRANSFER TO [EMAIL_1]");
+  });
+});
@@ -0,0 +1,124 @@
+import { offlineProvider, OFFLINE_PROVIDER_ID } from "./offline";
+import { createOpenAICompatibleProvider } from "./openAICompatible";
+import { createProxyProvider } from "./proxy";
+import { redactStrings, redactText } from "./redaction";
+import { reviewRequest } from "./review";
+import { isAIBudgetExceeded, scheduleAIRequest } from "./scheduler";
+import { AIProvider, AIProviderConfig, AIRequestOptions } from "./types";
+
+const STORAGE_KEY = "aiProvider";
+
+const DEFAULT_CONFIG: AIProviderConfig = { type: "server" };
+
+const PROVIDER_TYPES: AIProviderConfig["type"][] = [
+  "server",
+  "openai-compatible",
+  "offline",
+];
+
+export function createAIProvider(config: AIProviderConfig): AIProvider {
+  switch (config.type) {
+    case "server":
+      return createProxyProvider(config.baseUrl);
+    case "openai-compatible":
+      return createOpenAICompatibleProvider(config);
+    case "offline":
+      return offlineProvider;
+  }
+}
+
+function loadConfig(): AIProviderConfig {
+  try {
+    const stored =
+      typeof localStorage !== "undefined"
+        ? localStorage.getItem(STORAGE_KEY)
+        : null;
+    const config: AIProviderConfig | null = stored ? JSON.parse(stored) : null;
+    // Settings saved for providers that no longer exist, such as the
+    // in-browser Gemini client, fall back to the default
+    return config && PROVIDER_TYPES.includes(config.type)
+      ? config
+      : DEFAULT_CONFIG;
+  } catch {
+    return DEFAULT_CONFIG;
+  }
+}
+
+let activeConfig: AIProviderConfig = loadConfig();
+let activeProvider: AIProvider = createAIProvider(activeConfig);
+
+export function getAIProvider(): AIProvider {
+  return activeProvider;
+}
+
+export function getAIProviderConfig(): AIProviderConfig {
+  return activeConfig;
+}
+
+// Switch providers at runtime. Configs are remembered across reloads;
+// providers passed directly, such as the mock, are not.
+export function setAIProvider(provider: AIProviderConfig | AIProvider): void {
+  if ("generate" in provider) {
+    activeProvider = provider;
+    return;
+  }
+
+  activeConfig = provider;
+  activeProvider = createAIProvider(provider);
+  if (typeof localStorage !== "undefined") {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(provider));
+  }
+}
+
+// Off when offline, and once the session's budget is used up so callers
+// take their rule-based paths
+export function isAIEnabled(): boolean {
+  return activeProvider.id !== OFFLINE_PROVIDER_ID && !isAIBudgetExceeded();
+}
+
+// Every request goes through here: personal data is swapped for
+// placeholders, the user may review the result, and the placeholders in
+// the reply are swapped back. The scheduler limits how many run at once.
+export async function callAI(
+  prompt: string,
+  options: AIRequestOptions = {}
+): Promise<string> {
+  const provider = activeProvider;
+  const redaction = redactText(prompt);
+  const requestOptions: AIRequestOptions = {
+    ...options,
+    input: options.input && redactStrings(options.input, redaction.values),
+    previousError:
+      options.previousError &&
+      redactStrings(options.previousError, redaction.values),
+  };
+  // Reviewers see what the provider transmits, e.g. only the task input
+  // for the server
+  const sent =
+    provider.describeRequest?.(redaction.text, requestOptions) ??
+    redaction.text;
+  await reviewRequest({
+    providerName: provider.name,
+    text: sent,
+    redacted: redaction.values.filter(({ placeholder }) =>
+      sent.includes(placeholder)
+    ),
+    signal: options.signal,
+  });
+  options.signal?.throwIfAborted();
+
+  try {
+    const response = await scheduleAIRequest(
+      redaction.text,
+      requestOptions,
+      (scheduled) => provider.generate(redaction.text, scheduled)
+    );
+    return redaction.restore(response);
+  } catch (error) {
+    console.error(
+      `AI API error (${provider.name}):`,
+      error instanceof Error ? error.message : error
+    );
+    throw error;
+  }
+}
@@ -0,0 +1,50 @@
+import { RedactedValue } from "./redaction";
+
+// Exactly what is about to be sent, for the user to approve
+export interface AIRequestPreview {
+  providerName: string;
+  text: string;
+  // Values replaced by placeholders in `text`
+  redacted: RedactedValue[];
+  signal?: AbortSignal;
+}
+
+export type RequestReviewer = (preview: AIRequestPreview) => Promise<boolean>;
+
+export class AIRequestDeclinedError extends Error {
+  constructor() {
+    super("AI request declined during review");
+    this.name = "AIRequestDeclinedError";
+  }
+}
+
+const STORAGE_KEY = "aiReviewRequests";
+
+let reviewer: RequestReviewer | null = null;
+let reviewEnabled =
+  typeof localStorage === "undefined" ||
+  localStorage.getItem(STORAGE_KEY) !== "false";
+
+// The UI registers a reviewer that shows each request before it is sent
+export function setRequestReviewer(next: RequestReviewer | null): void {
+  reviewer = next;
+}
+
+export function isRequestReviewEnabled(): boolean {
+  return reviewEnabled;
+}
+
+export function setRequestReviewEnabled(enabled: boolean): void {
+  reviewEnabled = enabled;
+  if (typeof localStorage !== "undefined") {
+    localStorage.setItem(STORAGE_KEY, String(enabled));
+  }
+}
+
+// Resolves when the request may be sent; rejects when the user declines
+export async function reviewRequest(preview: AIRequestPreview): Promise<void> {
+  if (!reviewer || !reviewEnabled) return;
+  if (!(await reviewer(preview))) {
+    throw new AIRequestDeclinedError();
+  }
+}
@@ -0,0 +1,275 @@
+import { AIRequestOptions, TokenUsage } from "./types";
+
+export interface AISchedulerSettings {
+  // Requests sent to the provider at the same time
+  concurrency: number;
+  // Further attempts after a 429 or 5xx response
+  maxRetries: number;
+  // Budget for the session; AI is switched off once either is reached
+  maxRequests?: number;
+  maxTokens?: number;
+}
+
+// Counters for the current session, across every statement processed
+export interface AIUsage {
+  requests: number;
+  retries: number;
+  inputTokens: number;
+  outputTokens: number;
+  // Some providers do not report tokens; those are estimated from length
+  estimatedTokens: boolean;
+  budgetExceeded: boolean;
+}
+
+// Thrown by providers for HTTP errors, so rate limits and server errors
+// can be retried
+export class AIHttpError extends Error {
+  status: number;
+  retryAfterMs?: number;
+
+  constructor(status: number, message: string, retryAfterMs?: number) {
+    super(message);
+    this.name = "AIHttpError";
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+export class AIBudgetExceededError extends Error {
+  constructor() {
+    super("AI budget for this session is used up");
+    this.name = "AIBudgetExceededError";
+  }
+}
+
+const STORAGE_KEY = "aiScheduler";
+
+export const DEFAULT_SCHEDULER_SETTINGS: AISchedulerSettings = {
+  concurrency: 2,
+  maxRetries: 3,
+};
+
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 30000;
+const CHARS_PER_TOKEN = 4;
+
+function loadSettings(): AISchedulerSettings {
+  try {
+    const stored =
+      typeof localStorage !== "undefined"
+        ? localStorage.getItem(STORAGE_KEY)
+        : null;
+    return stored
+      ? { ...DEFAULT_SCHEDULER_SETTINGS, ...JSON.parse(stored) }
+      : DEFAULT_SCHEDULER_SETTINGS;
+  } catch {
+    return DEFAULT_SCHEDULER_SETTINGS;
+  }
+}
+
+const emptyUsage = (): AIUsage => ({
+  requests: 0,
+  retries: 0,
+  inputTokens: 0,
+  outputTokens: 0,
+  estimatedTokens: false,
+  budgetExceeded: false,
+});
+
+let settings = loadSettings();
+let usage = emptyUsage();
+const listeners = new Set<(usage: AIUsage) => void>();
+
+let active = 0;
+const waiting: Array<() => void> = [];
+
+export function getAISchedulerSettings(): AISchedulerSettings {
+  return settings;
+}
+
+export function setAISchedulerSettings(next: AISchedulerSettings): void {
+  settings = { ...next, concurrency: Math.max(1, next.concurrency) };
+  if (typeof localStorage !== "undefined") {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  }
+  // A raised budget takes effect straight away
+  updateUsage({ budgetExceeded: isOverBudget(usage) });
+  releaseWaiting();
+}
+
+export function getAIUsage(): AIUsage {
+  return usage;
+}
+
+// Start counting again, which also lifts a budget that was reached
+export function resetAIUsage(): void {
+  usage = emptyUsage();
+  listeners.forEach((listener) => listener(usage));
+}
+
+export function subscribeToAIUsage(
+  listener: (usage: AIUsage) => void
+): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function isAIBudgetExceeded(): boolean {
+  return usage.budgetExceeded;
+}
+
+function updateUsage(changes: Partial<AIUsage>): void {
+  usage = { ...usage, ...changes };
+  listeners.forEach((listener) => listener(usage));
+}
+
+function isOverBudget(current: AIUsage): boolean {
+  const { maxRequests, maxTokens } = settings;
+  return (
+    (maxRequests !== undefined && current.requests >= maxRequests) ||
+    (maxTokens !== undefined &&
+      current.inputTokens + current.outputTokens >= maxTokens)
+  );
+}
+
+function releaseWaiting(): void {
+  while (active < settings.concurrency && waiting.length > 0) {
+    active++;
+    waiting.shift()?.();
+  }
+}
+
+function acquireSlot(signal?: AbortSignal): Promise<void> {
+  signal?.throwIfAborted();
+  if (active < settings.concurrency) {
+    active++;
+    return Promise.resolve();
+  }
+
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      waiting.splice(waiting.indexOf(start), 1);
+      reject(signal?.reason);
+    };
+    const start = () => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    };
+    waiting.push(start);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+function releaseSlot(): void {
+  active--;
+  releaseWaiting();
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+// Retry-After header value in milliseconds; only the delay-seconds form
+// is understood
+export function retryAfterMs(header: string | null): number | undefined {
+  const seconds = Number(header);
+  return header && Number.isFinite(seconds) ? seconds * 1000 : undefined;
+}
+
+function isRetryable(error: unknown): error is AIHttpError {
+  return (
+    error instanceof AIHttpError &&
+    (error.status === 429 || error.status >= 500)
+  );
+}
+
+// Exponential backoff with jitter, unless the server said how long to wait
+function retryDelay(error: AIHttpError, attempt: number): number {
+  if (error.retryAfterMs !== undefined) {
+    return Math.min(error.retryAfterMs, MAX_DELAY_MS);
+  }
+  const delay = BASE_DELAY_MS * 2 ** attempt;
+  return Math.min(delay / 2 + Math.random() * (delay / 2), MAX_DELAY_MS);
+}
+
+// Tokens the provider reported, or an estimate from the text when it
+// reports none. Failed attempts only count what was reported.
+function recordTokens(
+  reported: TokenUsage | undefined,
+  prompt: string,
+  response: string | undefined
+): void {
+  if (!reported && response === undefined) return;
+  const tokens = reported || {
+    inputTokens: Math.ceil(prompt.length / CHARS_PER_TOKEN),
+    outputTokens: Math.ceil((response || "").length / CHARS_PER_TOKEN),
+  };
+  const next = {
+    ...usage,
+    inputTokens: usage.inputTokens + tokens.inputTokens,
+    outputTokens: usage.outputTokens + tokens.outputTokens,
+    estimatedTokens: usage.estimatedTokens || !reported,
+  };
+  updateUsage({ ...next, budgetExceeded: isOverBudget(next) });
+}
+
+// Run one provider request within the concurrency limit and the budget,
+// retrying rate limits and server errors. Every attempt counts towards
+// the session's usage.
+export async function scheduleAIRequest(
+  prompt: string,
+  options: AIRequestOptions,
+  generate: (options: AIRequestOptions) => Promise<string>
+): Promise<string> {
+  const { signal } = options;
+
+  for (let attempt = 0; ; attempt++) {
+    if (usage.budgetExceeded) throw new AIBudgetExceededError();
+
+    await acquireSlot(signal);
+    let reported: TokenUsage | undefined;
+    let response: string | undefined;
+    let delay: number;
+    try {
+      updateUsage({ requests: usage.requests + 1 });
+      response = await generate({
+        ...options,
+        onUsage: (tokens) => {
+          reported = tokens;
+          options.onUsage?.(tokens);
+        },
+      });
+      return response;
+    } catch (error) {
+      if (
+        signal?.aborted ||
+        !isRetryable(error) ||
+        attempt >= settings.maxRetries
+      ) {
+        throw error;
+      }
+      delay = retryDelay(error, attempt);
+      console.warn(
+        `AI request failed with ${error.status}, retrying in ${Math.round(delay / 1000)}s`
+      );
+    } finally {
+      releaseSlot();
+      recordTokens(reported, prompt, response);
+    }
+
+    updateUsage({ retries: usage.retries + 1 });
+    await sleep(delay, signal);
+  }
+}
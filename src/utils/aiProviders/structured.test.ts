@@ -0,0 +1,30 @@
+import { describe, expect, it } from "vitest";
+import { setAIProvider } from "./registry";
+import { callTaskAI } from "./structured";
+import { AIRequestOptions } from "./types";
+
+describe("callTaskAI", () => {
+  it("sends the rejection reason with the task input on retries", async () => {
+    const requests: AIRequestOptions[] = [];
+    const replies = ['[""]', '["tesco"]'];
+    setAIProvider({
+      id: "recorder",
+      name: "Recorder",
+      async generate(_prompt, options = {}) {
+        requests.push(options);
+        return replies[requests.length - 1];
+      },
+    });
+
+    await expect(
+      callTaskAI({
+        task: "category-feedback",
+        input: { description: "TESCO STORES", category: "Groceries" },
+      })
+    ).resolves.toEqual(["tesco"]);
+    expect(requests.map((r) => r.previousError)).toEqual([
+      undefined,
+      "$[0] must not be empty",
+    ]);
+  });
+});
@@ -0,0 +1,158 @@
+import { callAI } from "./registry";
+import { buildTaskPrompt, retryPrompt } from "./tasks";
+import { AIRequestOptions, AITaskRequest, JsonSchema } from "./types";
+
+export interface StructuredRequestOptions extends AIRequestOptions {
+  // Total attempts, including the first
+  maxAttempts?: number;
+}
+
+// Thrown when the model's reply still does not match the schema after all
+// attempts; `reason` describes the last problem found
+export class StructuredOutputError extends Error {
+  reason: string;
+
+  constructor(reason: string, attempts: number) {
+    super(`Invalid AI response after ${attempts} attempts: ${reason}`);
+    this.name = "StructuredOutputError";
+    this.reason = reason;
+  }
+}
+
+const DEFAULT_ATTEMPTS = 3;
+
+// Pull the JSON value out of a reply that may wrap it in markdown fences
+// or surround it with prose
+export function extractJson(text: string): unknown {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  const body = (fenced ? fenced[1] : text).trim();
+
+  try {
+    return JSON.parse(body);
+  } catch {
+    const start = body.search(/[[{]/);
+    const end = Math.max(body.lastIndexOf("]"), body.lastIndexOf("}"));
+    if (start === -1 || end < start) {
+      throw new Error("Response does not contain JSON");
+    }
+    return JSON.parse(body.slice(start, end + 1));
+  }
+}
+
+function typeOf(value: unknown): string {
+  if (Array.isArray(value)) return "array";
+  if (value === null) return "null";
+  if (typeof value === "number" && Number.isInteger(value)) return "integer";
+  return typeof value;
+}
+
+// Check a value against a schema, returning a readable message for every
+// mismatch, such as `$[2].confidence must be at most 1`
+export function validateSchema(
+  value: unknown,
+  schema: JsonSchema,
+  path = "$"
+): string[] {
+  const actual = typeOf(value);
+  const matchesType =
+    actual === schema.type ||
+    (schema.type === "number" && actual === "integer");
+  if (!matchesType) {
+    return [`${path} must be ${schema.type}, got ${actual}`];
+  }
+
+  const errors: string[] = [];
+  if (typeof value === "string") {
+    if (schema.enum && !schema.enum.includes(value)) {
+      errors.push(`${path} must be one of ${schema.enum.join(", ")}`);
+    }
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      errors.push(`${path} must not be empty`);
+    }
+  }
+  if (typeof value === "number") {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push(`${path} must be at least ${schema.minimum}`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push(`${path} must be at most ${schema.maximum}`);
+    }
+  }
+  if (Array.isArray(value) && schema.items) {
+    const items = schema.items;
+    value.forEach((item, index) =>
+      errors.push(...validateSchema(item, items, `${path}[${index}]`))
+    );
+  }
+  if (actual === "object" && schema.properties) {
+    const record = value as Record<string, unknown>;
+    for (const key of schema.required || []) {
+      if (record[key] === undefined) {
+        errors.push(`${path}.${key} is required`);
+      }
+    }
+    for (const [key, property] of Object.entries(schema.properties)) {
+      if (record[key] !== undefined) {
+        errors.push(...validateSchema(record[key], property, `${path}.${key}`));
+      }
+    }
+  }
+  return errors;
+}
+
+// Call the active provider for JSON matching `schema`. Replies that cannot
+// be parsed or fail validation are retried with the problems fed back to
+// the model.
+export async function callStructuredAI<T>(
+  prompt: string,
+  schema: JsonSchema,
+  options: StructuredRequestOptions = {}
+): Promise<T> {
+  const { maxAttempts = DEFAULT_ATTEMPTS, ...requestOptions } = options;
+  let request = prompt;
+  let reason = "";
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    const response = await callAI(request, {
+      ...requestOptions,
+      responseSchema: schema,
+      previousError: reason || undefined,
+    });
+
+    let errors: string[];
+    let value: unknown;
+    try {
+      value = extractJson(response);
+      errors = validateSchema(value, schema);
+    } catch (error) {
+      errors = [error instanceof Error ? error.message : "Invalid JSON"];
+    }
+    if (errors.length === 0) return value as T;
+
+    reason = errors.slice(0, 5).join("; ");
+    console.warn(`AI response failed validation (attempt ${attempt})`, reason);
+    request = retryPrompt(prompt, schema, reason, response);
+  }
+
+  throw new StructuredOutputError(reason, maxAttempts);
+}
+
+// Run one of the app's tasks. The server provider sends the task input,
+// from which the server builds the same prompt and schema.
+export function callTaskAI<T>(
+  request: AITaskRequest,
+  options: StructuredRequestOptions = {}
+): Promise<T> {
+  const { prompt, responseSchema } = buildTaskPrompt(request);
+  return callStructuredAI<T>(prompt, responseSchema, {
+    ...options,
+    task: request.task,
+    input: request.input,
+  });
+}
+
+// Short reason to record on data whose AI step failed
+export function describeAIFailure(error: unknown): string {
+  if (error instanceof StructuredOutputError) return error.reason;
+  return error instanceof Error ? error.message : String(error);
+}
@@ -0,0 +1,272 @@
+import { AITask, AITaskInputs, AITaskRequest, JsonSchema } from "./types";
+
+// Prompts and response schemas for every task, shared by the browser and
+// the server in /server. The server builds them from the task input
+// itself, so clients never choose what is sent to the model.
+
+// Limits on one field of a task input
+type FieldRule =
+  | { type: "string"; maxLength: number }
+  | { type: "strings"; maxItems: number; maxLength: number }
+  | { type: "integer"; minimum: number; maximum: number };
+
+interface TaskDefinition<T extends AITask> {
+  fields: Record<keyof AITaskInputs[T], FieldRule>;
+  prompt: (input: AITaskInputs[T]) => string;
+  schema: (input: AITaskInputs[T]) => JsonSchema;
+}
+
+// The bank name is printed near the top, so only the start of the text is
+// sent for detection
+export const BANK_DETECTION_CHARS = 4000;
+
+// Characters of page text per extraction request, small enough for local
+// models
+export const STATEMENT_CHUNK_CHARS = 12000;
+
+// Longest rejection reason the server adds to a retry prompt
+export const PREVIOUS_ERROR_CHARS = 1000;
+
+// Descriptions are sent 40 to a batch
+const DESCRIPTION_RULE: FieldRule = {
+  type: "strings",
+  maxItems: 50,
+  maxLength: 500,
+};
+
+const COLUMNS_SCHEMA: JsonSchema = {
+  type: "array",
+  items: {
+    type: "object",
+    properties: {
+      name: { type: "string", minLength: 1 },
+      dataType: { type: "string", enum: ["date", "text", "amount", "balance"] },
+      confidence: { type: "number", minimum: 0, maximum: 1 },
+      sign: { type: "string", enum: ["debit", "credit"] },
+    },
+    required: ["name", "dataType", "confidence"],
+  },
+};
+
+const EXTRACTION_SCHEMA: JsonSchema = {
+  type: "object",
+  properties: {
+    metadata: {
+      type: "object",
+      properties: {
+        bankName: { type: "string" },
+        accountNumber: { type: "string" },
+        statementPeriod: { type: "string" },
+        openingBalance: { type: "number" },
+        closingBalance: { type: "number" },
+        currency: { type: "string" },
+      },
+    },
+    transactions: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          date: { type: "string", minLength: 1 },
+          description: { type: "string", minLength: 1 },
+          amount: { type: "number" },
+          balance: { type: "number" },
+        },
+        required: ["date", "description", "amount"],
+      },
+    },
+  },
+  required: ["transactions"],
+};
+
+const DETAILS_SCHEMA: JsonSchema = {
+  type: "array",
+  items: {
+    type: "object",
+    properties: {
+      id: { type: "integer", minimum: 0 },
+      merchant: { type: "string" },
+      counterparty: { type: "string" },
+      reference: { type: "string" },
+      cardLast4: { type: "string" },
+      channel: {
+        type: "string",
+        enum: ["pos", "atm", "ach", "wire", "check", "transfer", ""],
+      },
+      location: { type: "string" },
+    },
+    required: ["id"],
+  },
+};
+
+function numbered(descriptions: string[]): string {
+  return descriptions.map((d, index) => `[${index}] ${d}`).join("\n");
+}
+
+const TASKS: { [T in AITask]: TaskDefinition<T> } = {
+  "bank-detection": {
+    fields: { text: { type: "string", maxLength: BANK_DETECTION_CHARS } },
+    prompt: ({ text }) =>
+      `Extract the bank name from the following PDF text:\n\n${text}\n\nRespond with only a JSON object with key bankName.`,
+    schema: () => ({
+      type: "object",
+      properties: { bankName: { type: "string" } },
+      required: ["bankName"],
+    }),
+  },
+  "column-inference": {
+    fields: { header: { type: "string", maxLength: 1000 } },
+    prompt: ({ header }) =>
+      `Given this table header from a bank statement: "${header}", map each column to a standard data type (date, text, amount, balance). Respond as a JSON array of objects with keys: name (exactly as in the header), dataType, confidence (0-1), and for amount columns that only hold withdrawals or only deposits, sign ("debit" or "credit").`,
+    schema: () => COLUMNS_SCHEMA,
+  },
+  categorization: {
+    fields: {
+      descriptions: DESCRIPTION_RULE,
+      categories: { type: "strings", maxItems: 200, maxLength: 100 },
+    },
+    prompt: ({ descriptions, categories }) =>
+      `Categorize each bank transaction description below using only these categories. Answer with the most specific category that fits, using the name after ">" for subcategories.
+${categories.map((path) => `- ${path}`).join("\n")}
+
+Respond with only a JSON array containing one object per description, with keys: id (the number in brackets), category, and confidence (0-1).
+
+${numbered(descriptions)}`,
+    // Answers are limited to the names in the taxonomy
+    schema: ({ categories }) => ({
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          id: { type: "integer", minimum: 0 },
+          category: {
+            type: "string",
+            enum: categories.map((path) => path.split(" > ").pop() || path),
+          },
+          confidence: { type: "number", minimum: 0, maximum: 1 },
+        },
+        required: ["id", "category", "confidence"],
+      },
+    }),
+  },
+  "category-feedback": {
+    fields: {
+      description: { type: "string", maxLength: 500 },
+      category: { type: "string", maxLength: 100 },
+    },
+    prompt: ({ description, category }) =>
+      `The user corrected the category of "${description}" to "${category}". Suggest up to 5 words or short phrases that identify this merchant in other transaction descriptions, leaving out words other merchants share. Return as an array of strings.`,
+    schema: () => ({ type: "array", items: { type: "string", minLength: 1 } }),
+  },
+  "statement-extraction": {
+    // A single long line can push a chunk past its usual size
+    fields: {
+      text: { type: "string", maxLength: STATEMENT_CHUNK_CHARS + 4000 },
+      chunk: { type: "integer", minimum: 1, maximum: 1000 },
+      totalChunks: { type: "integer", minimum: 1, maximum: 1000 },
+    },
+    prompt: ({ text, chunk, totalChunks }) =>
+      `Extract every transaction from this bank statement text (part ${chunk} of ${totalChunks}).
+For each transaction give the date exactly as printed, the description, the amount as a number that is negative for withdrawals, debits and payments out and positive for deposits and credits, and the running balance if printed.
+Also give any statement details you can see: bank name, account number, statement period, opening and closing balance, and the ISO currency code.
+Do not invent transactions and do not include balance or total lines as transactions.
+
+${text}`,
+    schema: () => EXTRACTION_SCHEMA,
+  },
+  "merchant-extraction": {
+    fields: { descriptions: DESCRIPTION_RULE },
+    prompt: ({ descriptions }) =>
+      `For each bank transaction description below, identify the merchant's common brand name (e.g. "Amazon" for "AMZN MKTP US*2K3L90"), the counterparty of transfers and payments between people or companies, any reference or cheque number, the last 4 digits of the card, the channel (pos, atm, ach, wire, check or transfer) and the location.
+Leave out anything that is not in the description.
+Respond with only a JSON array containing one object per description, with keys: id (the number in brackets), merchant, counterparty, reference, cardLast4, channel and location.
+
+${numbered(descriptions)}`,
+    schema: () => DETAILS_SCHEMA,
+  },
+};
+
+function fieldError(name: string, value: unknown, rule: FieldRule): string {
+  switch (rule.type) {
+    case "string":
+      if (typeof value !== "string") return `${name} must be a string`;
+      return value.length > rule.maxLength
+        ? `${name} must be at most ${rule.maxLength} characters`
+        : "";
+    case "strings":
+      if (!Array.isArray(value) || value.some((v) => typeof v !== "string")) {
+        return `${name} must be an array of strings`;
+      }
+      if (value.length > rule.maxItems) {
+        return `${name} must have at most ${rule.maxItems} items`;
+      }
+      return value.some((v: string) => v.length > rule.maxLength)
+        ? `${name} items must be at most ${rule.maxLength} characters`
+        : "";
+    case "integer":
+      return Number.isInteger(value) &&
+        (value as number) >= rule.minimum &&
+        (value as number) <= rule.maximum
+        ? ""
+        : `${name} must be an integer from ${rule.minimum} to ${rule.maximum}`;
+  }
+}
+
+// Check a task input received from a client. Throws with a readable
+// message when a field is missing, unknown or out of bounds.
+export function parseTaskInput<T extends AITask>(
+  task: T,
+  value: unknown
+): AITaskInputs[T] {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    throw new Error("input must be an object");
+  }
+  const fields: Record<string, FieldRule> = TASKS[task].fields;
+  const unknown = Object.keys(value).find((key) => !(key in fields));
+  if (unknown) throw new Error(`Unknown input field ${unknown}`);
+
+  for (const [name, rule] of Object.entries(fields)) {
+    const error = fieldError(
+      name,
+      (value as Record<string, unknown>)[name],
+      rule
+    );
+    if (error) throw new Error(error);
+  }
+  return value as AITaskInputs[T];
+}
+
+// The prompt for another attempt after a reply failed validation. The
+// server has no previous reply to quote, only the reason.
+export function retryPrompt(
+  prompt: string,
+  schema: JsonSchema,
+  reason: string,
+  previousResponse?: string
+): string {
+  const quoted =
+    previousResponse === undefined
+      ? ""
+      : `\nPrevious response:\n${previousResponse}`;
+  return `${prompt}
+
+Your previous response was rejected: ${reason}.${quoted}
+
+Respond again with only JSON matching this schema:
+${JSON.stringify(schema)}`;
+}
+
+export function buildTaskPrompt(request: AITaskRequest): {
+  prompt: string;
+  responseSchema: JsonSchema;
+} {
+  const definition = TASKS[request.task] as TaskDefinition<AITask>;
+  const prompt = definition.prompt(request.input);
+  const responseSchema = definition.schema(request.input);
+  return {
+    prompt: request.previousError
+      ? retryPrompt(prompt, responseSchema, request.previousError)
+      : prompt,
+    responseSchema,
+  };
+}
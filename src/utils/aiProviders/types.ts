@@ -0,0 +1,91 @@
+// The subset of JSON Schema used for structured responses
+export interface JsonSchema {
+  type: "object" | "array" | "string" | "number" | "integer" | "boolean";
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  enum?: string[];
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+}
+
+// The operations the app asks a model to perform. Requests sent through
+// the server proxy are routed and limited by task.
+export type AITask =
+  | "bank-detection"
+  | "column-inference"
+  | "categorization"
+  | "category-feedback"
+  | "statement-extraction"
+  | "merchant-extraction";
+
+// The data each task works on. Prompts and response schemas are built
+// from these, in the browser and again on the server.
+export interface AITaskInputs {
+  "bank-detection": { text: string };
+  "column-inference": { header: string };
+  // Category paths as "Parent > Child"
+  categorization: { descriptions: string[]; categories: string[] };
+  "category-feedback": { description: string; category: string };
+  "statement-extraction": { text: string; chunk: number; totalChunks: number };
+  "merchant-extraction": { descriptions: string[] };
+}
+
+export type AITaskInput = AITaskInputs[AITask];
+
+export type AITaskRequest = {
+  [T in AITask]: {
+    task: T;
+    input: AITaskInputs[T];
+    // Why the model's previous reply was rejected, when retrying
+    previousError?: string;
+  };
+}[AITask];
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface AIRequestOptions {
+  signal?: AbortSignal;
+  task?: AITask;
+  // Sent by the server provider in place of the prompt
+  input?: AITaskInput;
+  // Sent with the input on retries, as the server provider cannot send
+  // the retry prompt
+  previousError?: string;
+  // Asks the provider to constrain its reply to JSON matching this schema,
+  // where the provider supports it
+  responseSchema?: JsonSchema;
+  // Providers that know how many tokens a request used report them here
+  onUsage?: (usage: TokenUsage) => void;
+}
+
+export interface AIProvider {
+  id: string;
+  name: string;
+  // Send a prompt and resolve with the model's text reply
+  generate(prompt: string, options?: AIRequestOptions): Promise<string>;
+  // The payload a request transmits, for review before sending. Providers
+  // that send the prompt as it is leave this out.
+  describeRequest?(prompt: string, options?: AIRequestOptions): string;
+}
+
+// Serializable description of a provider, as chosen in the settings panel
+export type AIProviderConfig =
+  | {
+      type: "server";
+      // Where the AI proxy is mounted; the server holds the API key
+      baseUrl?: string;
+    }
+  | {
+      type: "openai-compatible";
+      // e.g. http://localhost:11434/v1 for a self-hosted model
+      baseUrl: string;
+      model: string;
+      apiKey?: string;
+    }
+  | { type: "offline" };
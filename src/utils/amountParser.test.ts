@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+import { findAmounts, isAmountText, parseAmount } from "./amountParser";
+
+describe("parseAmount", () => {
+  it.each([
+    ["$1,234.56", 1234.56, "USD"],
+    ["-45.00", -45, undefined],
+    ["1.234,56 €", 1234.56, "EUR"],
+    ["1 234,56", 1234.56, undefined],
+    ["(45.00)", -45, undefined],
+    ["45.00-", -45, undefined],
+    ["45.00 CR", 45, undefined],
+    ["45.00 DR", -45, undefined],
+    ["EUR 12,50", 12.5, "EUR"],
+  ])("reads %s", (text, value, currency) => {
+    expect(parseAmount(text)).toEqual({ value, currency });
+  });
+
+  it.each([
+    ["$-45.00", -45],
+    ["-€12,50", -12.5],
+    ["45.00 Dr", -45],
+    ["(12.50 EUR)", -12.5],
+    ["TFR-OUT 45.00", 45],
+    ["45.00 REF A-1", 45],
+    ["45.00 DRAWINGS", 45],
+  ])("reads the sign of %s only from its ends", (text, value) => {
+    expect(parseAmount(text)?.value).toBe(value);
+  });
+
+  it("uses the statement format for a lone separator before three digits", () => {
+    expect(parseAmount("1.234")?.value).toBe(1234);
+    expect(parseAmount("1,234", { decimalSeparator: "," })?.value).toBe(1.234);
+  });
+});
+
+describe("isAmountText", () => {
+  it("accepts amounts and rejects dates", () => {
+    expect(isAmountText("1,234.56")).toBe(true);
+    expect(isAmountText("(45.00)")).toBe(true);
+    expect(isAmountText("03/04/2024")).toBe(false);
+  });
+});
+
+describe("findAmounts", () => {
+  it("finds the amount and balance on a line", () => {
+    expect(
+      findAmounts("01/05 Coffee shop 3.50 1.096,50", {
+        decimalSeparator: ",",
+      }).map((amount) => amount.value)
+    ).toEqual([3.5, 1096.5]);
+  });
+});
@@ -0,0 +1,169 @@
+export interface AmountFormat {
+  decimalSeparator: "." | ",";
+}
+
+export interface ParsedAmount {
+  value: number;
+  // ISO 4217 code when the amount carried a symbol or code
+  currency?: string;
+}
+
+const CURRENCY_SYMBOLS: Record<string, string> = {
+  C$: "CAD",
+  A$: "AUD",
+  NZ$: "NZD",
+  R$: "BRL",
+  HK$: "HKD",
+  S$: "SGD",
+  US$: "USD",
+  $: "USD",
+  "€": "EUR",
+  "£": "GBP",
+  "¥": "JPY",
+  "₹": "INR",
+  "₦": "NGN",
+  "₩": "KRW",
+  "₱": "PHP",
+  "₺": "TRY",
+  "₽": "RUB",
+  "₪": "ILS",
+};
+
+const CURRENCY_CODES = [
+  "USD",
+  "EUR",
+  "GBP",
+  "CAD",
+  "AUD",
+  "NZD",
+  "JPY",
+  "CHF",
+  "CNY",
+  "HKD",
+  "SGD",
+  "INR",
+  "NGN",
+  "ZAR",
+  "KES",
+  "GHS",
+  "SEK",
+  "NOK",
+  "DKK",
+  "PLN",
+  "CZK",
+  "HUF",
+  "BRL",
+  "MXN",
+  "AED",
+];
+
+const SYMBOL_SOURCE = "(?:[A-Z]{1,2}\\$|[$€£¥₹₦₩₱₺₽₪])";
+const CODE_SOURCE = `(?:${CURRENCY_CODES.join("|")})`;
+const SPACES = "'\\s\\u00a0\\u202f";
+const NUMBER_SOURCE = [
+  `\\d{1,3}(?:[,.${SPACES}]\\d{3})*(?:[.,]\\d{1,2})`,
+  "\\d+(?:[.,]\\d{1,2})",
+  "\\d{1,3}(?:[,.]\\d{3})+",
+].join("|");
+
+// Regex source matching a single monetary amount as printed on statements,
+// e.g. "$1,234.56", "-45.00", "1.234,56 €", "1 234,56", "(45.00)",
+// "45.00-", "45.00 CR", "EUR 12,50"
+export const AMOUNT_PATTERN_SOURCE =
+  `(?<![\\d.,/])\\(?[-−]?\\s?(?:${SYMBOL_SOURCE}|${CODE_SOURCE}\\s)?\\s?[-−]?` +
+  `(?:${NUMBER_SOURCE})(?![\\d]|[.,/]\\d)` +
+  `(?:\\s?${SYMBOL_SOURCE}|\\s${CODE_SOURCE}\\b)?\\)?` +
+  `(?:[-−]|\\s?(?:CR|DR|Cr|Dr)\\b)?`;
+
+const AMOUNT_ONLY = new RegExp(`^(?:${AMOUNT_PATTERN_SOURCE})$`);
+
+// What may come before and after the digits of a debit: a minus next to
+// the currency, or a minus or DR at the very end
+const LEADING_SIGN = new RegExp(
+  `^\\(?[-−]?\\s?(?:${SYMBOL_SOURCE}|${CODE_SOURCE}\\s)?\\s?[-−]?\\s?$`
+);
+const TRAILING_SIGN = new RegExp(
+  `^\\s?(?:${SYMBOL_SOURCE}|${CODE_SOURCE})?\\s?\\)?\\s?(?:[-−]|DR|Dr)$`
+);
+
+function detectCurrency(text: string): string | undefined {
+  const code = text.match(new RegExp(`\\b${CODE_SOURCE}\\b`));
+  if (code) return code[0];
+
+  const symbols = Object.keys(CURRENCY_SYMBOLS).sort(
+    (a, b) => b.length - a.length
+  );
+  const symbol = symbols.find((s) => text.includes(s));
+  return symbol ? CURRENCY_SYMBOLS[symbol] : undefined;
+}
+
+// Work out which separator is the decimal point. With both present the
+// last one wins; a lone separator followed by one or two digits is a
+// decimal point; a lone one followed by three digits is only a decimal
+// point when the statement's format says so.
+function normalizeNumber(digits: string, format?: AmountFormat): string {
+  const compact = digits.replace(/['\s\u00a0\u202f]/g, "");
+  const lastDot = compact.lastIndexOf(".");
+  const lastComma = compact.lastIndexOf(",");
+
+  let decimal: "." | "," | undefined;
+  if (lastDot !== -1 && lastComma !== -1) {
+    decimal = lastDot > lastComma ? "." : ",";
+  } else if (lastDot !== -1 || lastComma !== -1) {
+    const separator = lastDot !== -1 ? "." : ",";
+    const occurrences = compact.split(separator).length - 1;
+    const fraction = compact.length - compact.lastIndexOf(separator) - 1;
+    if (occurrences === 1 && fraction !== 3) {
+      decimal = separator;
+    } else if (occurrences === 1 && format?.decimalSeparator === separator) {
+      decimal = separator;
+    }
+  }
+
+  if (!decimal) return compact.replace(/[.,]/g, "");
+  const group = decimal === "," ? "." : ",";
+  const normalized = compact.split(group).join("");
+  return decimal === "," ? normalized.replace(",", ".") : normalized;
+}
+
+export function isAmountText(text: string): boolean {
+  return AMOUNT_ONLY.test(text.trim());
+}
+
+// Parse a monetary amount. Debits shown with a leading or trailing minus,
+// in parentheses or with a DR suffix come back negative.
+export function parseAmount(
+  text: string,
+  format?: AmountFormat
+): ParsedAmount | undefined {
+  const trimmed = text.trim();
+  const digits = trimmed.match(/\d[\d.,'\s\u00a0\u202f]*/);
+  if (!digits) return undefined;
+
+  const value = parseFloat(normalizeNumber(digits[0].trim(), format));
+  if (isNaN(value)) return undefined;
+
+  const before = trimmed.slice(0, digits.index);
+  const after = trimmed.slice((digits.index || 0) + digits[0].length);
+  const negative =
+    /^\(.*\)$/.test(trimmed) ||
+    (/[-−]/.test(before) && LEADING_SIGN.test(before)) ||
+    TRAILING_SIGN.test(after);
+
+  return {
+    value: negative ? -value : value,
+    currency: detectCurrency(trimmed.replace(/\b(?:CR|DR)\b/gi, "")),
+  };
+}
+
+// Find every amount in a line of text, in order of appearance
+export function findAmounts(
+  text: string,
+  format?: AmountFormat
+): Array<ParsedAmount & { text: string }> {
+  const matches = text.match(new RegExp(AMOUNT_PATTERN_SOURCE, "g")) || [];
+  return matches.flatMap((match) => {
+    const parsed = parseAmount(match, format);
+    return parsed ? [{ ...parsed, text: match.trim() }] : [];
+  });
+}
@@ -0,0 +1,23 @@
+import { genericProfile } from "./generic";
+import { BankProfile } from "./types";
+
+export const bankOfAmericaProfile: BankProfile = {
+  ...genericProfile,
+  id: "bank-of-america",
+  name: "Bank of America",
+  fingerprints: {
+    headerText: [/Bank\s+of\s+America,?\s+N\.A\./i, /bankofamerica\.com/i],
+    logoText: [/BANK\s+OF\s+AMERICA/i],
+    routingNumbers: ["026009593", "121000358", "111000025"],
+  },
+  dateFormat: { order: "MDY" },
+  columns: [
+    { name: "Date", dataType: "date", confidence: 0.95 },
+    { name: "Description", dataType: "text", confidence: 0.95 },
+    { name: "Amount", dataType: "amount", confidence: 0.95 },
+  ],
+  statementPeriodPatterns: [
+    /for\s+(\w+\s+\d{1,2},?\s+\d{4})\s+to\s+(\w+\s+\d{1,2},?\s+\d{4})/i,
+    ...genericProfile.statementPeriodPatterns,
+  ],
+};
@@ -0,0 +1,25 @@
+import { genericProfile } from "./generic";
+import { BankProfile } from "./types";
+
+export const barclaysProfile: BankProfile = {
+  ...genericProfile,
+  id: "barclays",
+  name: "Barclays",
+  fingerprints: {
+    headerText: [/Barclays\s+Bank\s+UK\s+PLC/i, /barclays\.co\.uk/i],
+    logoText: [/^\s*BARCLAYS\b/im],
+  },
+  dateFormat: { order: "DMY" },
+  accountPattern: /Account\s+(?:No\.?|Number)[\s:]+(\d{8})/i,
+  columns: [
+    { name: "Date", dataType: "date", confidence: 0.95 },
+    { name: "Description", dataType: "text", confidence: 0.95 },
+    { name: "Money out", dataType: "amount", confidence: 0.95, sign: "debit" },
+    { name: "Money in", dataType: "amount", confidence: 0.95, sign: "credit" },
+    { name: "Balance", dataType: "balance", confidence: 0.95 },
+  ],
+  balanceLabels: {
+    opening: ["Start balance", ...genericProfile.balanceLabels.opening],
+    closing: ["End balance", ...genericProfile.balanceLabels.closing],
+  },
+};
@@ -0,0 +1,24 @@
+import { genericProfile } from "./generic";
+import { BankProfile } from "./types";
+
+export const chaseProfile: BankProfile = {
+  ...genericProfile,
+  id: "chase",
+  name: "Chase",
+  fingerprints: {
+    headerText: [/JPMorgan\s+Chase\s+Bank/i, /chase\.com/i],
+    logoText: [/^\s*CHASE\b/m],
+    routingNumbers: ["021000021", "322271627"],
+  },
+  dateFormat: { order: "MDY" },
+  columns: [
+    { name: "Date", dataType: "date", confidence: 0.95 },
+    { name: "Description", dataType: "text", confidence: 0.95 },
+    { name: "Amount", dataType: "amount", confidence: 0.95 },
+    { name: "Balance", dataType: "balance", confidence: 0.95 },
+  ],
+  statementPeriodPatterns: [
+    /(\w+\s+\d{1,2},?\s+\d{4})\s+through\s+(\w+\s+\d{1,2},?\s+\d{4})/i,
+    ...genericProfile.statementPeriodPatterns,
+  ],
+};
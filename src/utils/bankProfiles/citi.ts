@@ -0,0 +1,14 @@
+import { genericProfile } from "./generic";
+import { BankProfile } from "./types";
+
+export const citiProfile: BankProfile = {
+  ...genericProfile,
+  id: "citi",
+  name: "Citibank",
+  fingerprints: {
+    headerText: [/Citibank,?\s+N\.A\./i, /citibank\.com|citi\.com/i],
+    logoText: [/^\s*citi\b/im],
+    routingNumbers: ["021000089", "322271724"],
+  },
+  dateFormat: { order: "MDY" },
+};
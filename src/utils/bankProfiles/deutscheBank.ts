@@ -0,0 +1,29 @@
+import { genericProfile } from "./generic";
+import { BankProfile } from "./types";
+
+export const deutscheBankProfile: BankProfile = {
+  ...genericProfile,
+  id: "deutsche-bank",
+  name: "Deutsche Bank",
+  fingerprints: {
+    headerText: [/Deutsche\s+Bank\s+AG/i, /deutsche-bank\.de/i],
+    logoText: [/Deutsche\s+Bank/i],
+  },
+  dateFormat: { order: "DMY" },
+  amountFormat: { decimalSeparator: "," },
+  accountPattern: /(?:IBAN|Konto)[\s:]+([A-Z]{2}\d{2}[\d ]{12,30}|\d+)/i,
+  columns: [
+    { name: "Buchung", dataType: "date", confidence: 0.9 },
+    { name: "Verwendungszweck", dataType: "text", confidence: 0.9 },
+    { name: "Soll", dataType: "amount", confidence: 0.9, sign: "debit" },
+    { name: "Haben", dataType: "amount", confidence: 0.9, sign: "credit" },
+  ],
+  balanceLabels: {
+    opening: ["Alter Saldo", "Anfangssaldo", "Kontostand am"],
+    closing: ["Neuer Saldo", "Endsaldo"],
+  },
+  statementPeriodPatterns: [
+    /Kontoauszug\s+vom\s+(\d{2}\.\d{2}\.\d{4})\s+bis\s+(\d{2}\.\d{2}\.\d{4})/i,
+    ...genericProfile.statementPeriodPatterns,
+  ],
+};
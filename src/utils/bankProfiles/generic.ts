@@ -0,0 +1,36 @@
+import { AMOUNT_PATTERN_SOURCE } from "../amountParser";
+import { DATE_PATTERN_SOURCE } from "../dateParser";
+import { BankProfile } from "./types";
+
+export const genericProfile: BankProfile = {
+  id: "generic",
+  name: "Generic Bank",
+  fingerprints: {},
+  dateFormat: {},
+  amountFormat: { decimalSeparator: "." },
+  accountPattern: /(?:Account|Acct)[\s#:]+(\d+)/i,
+  transactionPattern: new RegExp(
+    `^(${DATE_PATTERN_SOURCE})\\s+(.+?)\\s+(${AMOUNT_PATTERN_SOURCE})(?:\\s+(${AMOUNT_PATTERN_SOURCE}))?\\s*$`,
+    "i"
+  ),
+  balanceLabels: {
+    opening: [
+      "Beginning Balance",
+      "Opening Balance",
+      "Previous Balance",
+      "Starting Balance",
+    ],
+    closing: [
+      "Ending Balance",
+      "Closing Balance",
+      "Current Balance",
+      "Final Balance",
+    ],
+  },
+  statementPeriodPatterns: [
+    /Statement\s+Period[:\s]+(.+?)(?:\n|$)/i,
+    /Period[:\s]+(.+?)(?:\n|$)/i,
+    /From\s+(\d{1,2}\/\d{1,2}\/\d{2,4})\s+to\s+(\d{1,2}\/\d{1,2}\/\d{2,4})/i,
+    /(\w+\s+\d{1,2},?\s+\d{4})\s+through\s+(\w+\s+\d{1,2},?\s+\d{4})/i,
+  ],
+};
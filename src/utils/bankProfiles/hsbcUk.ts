@@ -0,0 +1,25 @@
+import { genericProfile } from "./generic";
+import { BankProfile } from "./types";
+
+export const hsbcUkProfile: BankProfile = {
+  ...genericProfile,
+  id: "hsbc-uk",
+  name: "HSBC UK",
+  fingerprints: {
+    headerText: [/HSBC\s+UK\s+Bank\s+plc/i, /hsbc\.co\.uk/i],
+    logoText: [/^\s*HSBC\b/m],
+  },
+  dateFormat: { order: "DMY" },
+  accountPattern: /Account\s+Number[\s:]+(\d{8})/i,
+  columns: [
+    { name: "Date", dataType: "date", confidence: 0.95 },
+    { name: "Payment type and details", dataType: "text", confidence: 0.95 },
+    { name: "Paid out", dataType: "amount", confidence: 0.95, sign: "debit" },
+    { name: "Paid in", dataType: "amount", confidence: 0.95, sign: "credit" },
+    { name: "Balance", dataType: "balance", confidence: 0.95 },
+  ],
+  balanceLabels: {
+    opening: ["Opening Balance", "Balance brought forward"],
+    closing: ["Closing Balance", "Balance carried forward"],
+  },
+};
@@ -0,0 +1,37 @@
+import { bankOfAmericaProfile } from "./bankOfAmerica";
+import { barclaysProfile } from "./barclays";
+import { chaseProfile } from "./chase";
+import { citiProfile } from "./citi";
+import { deutscheBankProfile } from "./deutscheBank";
+import { hsbcUkProfile } from "./hsbcUk";
+import { lloydsProfile } from "./lloyds";
+import { natwestProfile } from "./natwest";
+import { pncProfile } from "./pnc";
+import { registerBankProfile } from "./registry";
+import { usBankProfile } from "./usBank";
+import { wellsFargoProfile } from "./wellsFargo";
+
+// Built-in profiles. To support a new bank, add a profile file next to
+// these and register it here; the parser picks it up automatically.
+[
+  chaseProfile,
+  bankOfAmericaProfile,
+  wellsFargoProfile,
+  citiProfile,
+  usBankProfile,
+  pncProfile,
+  barclaysProfile,
+  hsbcUkProfile,
+  lloydsProfile,
+  natwestProfile,
+  deutscheBankProfile,
+].forEach(registerBankProfile);
+
+export { genericProfile } from "./generic";
+export {
+  detectBankProfile,
+  getBankProfile,
+  getBankProfiles,
+  registerBankProfile,
+} from "./registry";
+export type { BankFingerprints, BankProfile, BankProfileMatch } from "./types";
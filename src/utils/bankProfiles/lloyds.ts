@@ -0,0 +1,22 @@
+import { genericProfile } from "./generic";
+import { BankProfile } from "./types";
+
+export const lloydsProfile: BankProfile = {
+  ...genericProfile,
+  id: "lloyds",
+  name: "Lloyds Bank",
+  fingerprints: {
+    headerText: [/Lloyds\s+Bank\s+plc/i, /lloydsbank\.com/i],
+    logoText: [/LLOYDS\s+BANK/i],
+  },
+  dateFormat: { order: "DMY" },
+  accountPattern: /Account\s+Number[\s:]+(\d{8})/i,
+  columns: [
+    { name: "Date", dataType: "date", confidence: 0.95 },
+    { name: "Description", dataType: "text", confidence: 0.95 },
+    { name: "Type", dataType: "text", confidence: 0.8 },
+    { name: "Money In", dataType: "amount", confidence: 0.95, sign: "credit" },
+    { name: "Money Out", dataType: "amount", confidence: 0.95, sign: "debit" },
+    { name: "Balance", dataType: "balance", confidence: 0.95 },
+  ],
+};
@@ -0,0 +1,25 @@
+import { genericProfile } from "./generic";
+import { BankProfile } from "./types";
+
+export const natwestProfile: BankProfile = {
+  ...genericProfile,
+  id: "natwest",
+  name: "NatWest",
+  fingerprints: {
+    headerText: [/National\s+Westminster\s+Bank\s+Plc/i, /natwest\.com/i],
+    logoText: [/^\s*NatWest\b/im],
+  },
+  dateFormat: { order: "DMY" },
+  accountPattern: /Account\s+(?:No\.?|Number)[\s:]+(\d{8})/i,
+  columns: [
+    { name: "Date", dataType: "date", confidence: 0.95 },
+    { name: "Description", dataType: "text", confidence: 0.95 },
+    { name: "Paid In", dataType: "amount", confidence: 0.95, sign: "credit" },
+    { name: "Withdrawn", dataType: "amount", confidence: 0.95, sign: "debit" },
+    { name: "Balance", dataType: "balance", confidence: 0.95 },
+  ],
+  balanceLabels: {
+    opening: ["Brought Forward", ...genericProfile.balanceLabels.opening],
+    closing: ["Carried Forward", ...genericProfile.balanceLabels.closing],
+  },
+};
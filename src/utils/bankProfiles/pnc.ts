@@ -0,0 +1,14 @@
+import { genericProfile } from "./generic";
+import { BankProfile } from "./types";
+
+export const pncProfile: BankProfile = {
+  ...genericProfile,
+  id: "pnc",
+  name: "PNC Bank",
+  fingerprints: {
+    headerText: [/PNC\s+Bank,?\s+National\s+Association/i, /pnc\.com/i],
+    logoText: [/^\s*PNC\b/m],
+    routingNumbers: ["043000096"],
+  },
+  dateFormat: { order: "MDY" },
+};
@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+import { detectBankProfile } from ".";
+
+describe("detectBankProfile", () => {
+  it("matches fingerprints in the page header", () => {
+    const text = [
+      "Wells Fargo Bank, N.A.",
+      "Statement period 01/01/2024 - 01/31/2024",
+      "Date Description Amount",
+      "01/05/2024 Coffee shop 3.50",
+    ].join("\n");
+    expect(detectBankProfile(text).profile.id).toBe("wells-fargo");
+  });
+
+  it("falls back to the generic profile", () => {
+    const text = "Credit Union Statement\nDate Description Amount";
+    expect(detectBankProfile(text)).toMatchObject({
+      profile: { id: "generic" },
+      score: 0,
+    });
+  });
+
+  it("ignores bank names in transaction descriptions", () => {
+    const text = [
+      "Credit Union Statement",
+      "Date Description Amount",
+      "01/05/2024 PAYMENT TO WELLS FARGO BANK, N.A. 250.00",
+      "01/06/2024 CHASE CREDIT CRD AUTOPAY 100.00",
+    ].join("\n");
+    expect(detectBankProfile(text).profile.id).toBe("generic");
+  });
+
+  it("matches routing numbers only as whole numbers", () => {
+    expect(detectBankProfile("Routing 121000248").profile.id).toBe(
+      "wells-fargo"
+    );
+    expect(detectBankProfile("Reference 91210002480").profile.id).toBe(
+      "generic"
+    );
+  });
+
+  it("needs more than a brand name to pick a profile", () => {
+    expect(detectBankProfile("WELLS FARGO\nYour statement").profile.id).toBe(
+      "generic"
+    );
+  });
+});
@@ -0,0 +1,75 @@
+import { genericProfile } from "./generic";
+import { BankProfile, BankProfileMatch } from "./types";
+
+const profiles: BankProfile[] = [];
+
+// Registering a profile with an existing id replaces it
+export function registerBankProfile(profile: BankProfile): void {
+  const index = profiles.findIndex((p) => p.id === profile.id);
+  if (index === -1) {
+    profiles.push(profile);
+  } else {
+    profiles[index] = profile;
+  }
+}
+
+export function getBankProfiles(): BankProfile[] {
+  return [...profiles];
+}
+
+export function getBankProfile(id: string): BankProfile {
+  return profiles.find((p) => p.id === id) || genericProfile;
+}
+
+// Fingerprints are only looked for above the first transaction row on
+// page one, and within this many lines of the top, so descriptions such
+// as "PAYMENT TO WELLS FARGO" do not count
+const HEADER_LINES = 25;
+
+// A match needs at least one header text or routing number, and must
+// outscore the runner-up by a clear margin
+const MIN_SCORE = 3;
+const MIN_MARGIN = 2;
+
+function headerRegion(firstPageText: string): string {
+  const lines = firstPageText.split("\n").slice(0, HEADER_LINES);
+  const firstTransaction = lines.findIndex((line) =>
+    genericProfile.transactionPattern.test(line.trim())
+  );
+  return (
+    firstTransaction === -1 ? lines : lines.slice(0, firstTransaction)
+  ).join("\n");
+}
+
+function scoreProfile(profile: BankProfile, header: string): number {
+  const { headerText = [], logoText = [], routingNumbers = [] } =
+    profile.fingerprints;
+  const routingMatches = routingNumbers.filter((routing) =>
+    new RegExp(`\\b${routing}\\b`).test(header)
+  );
+
+  return (
+    headerText.filter((pattern) => pattern.test(header)).length * 3 +
+    logoText.filter((pattern) => pattern.test(header)).length * 2 +
+    routingMatches.length * 5
+  );
+}
+
+// Pick the registered profile whose fingerprints best match the header of
+// the statement's first page, falling back to the generic profile when
+// none matches clearly
+export function detectBankProfile(firstPageText: string): BankProfileMatch {
+  const header = headerRegion(firstPageText);
+  const [best, runnerUp] = profiles
+    .map((profile) => ({ profile, score: scoreProfile(profile, header) }))
+    .sort((a, b) => b.score - a.score);
+
+  if (
+    !best ||
+    best.score < MIN_SCORE ||
+    best.score - (runnerUp?.score || 0) < MIN_MARGIN
+  ) {
+    return { profile: genericProfile, score: 0 };
+  }
+  return best;
+}
@@ -0,0 +1,38 @@
+import { AmountFormat } from "../amountParser";
+import { ColumnDefinition } from "../columnExtractor";
+import { DateOrder } from "../dateParser";
+
+export interface BankFingerprints {
+  // Text printed in the statement header or footer, e.g. the legal name
+  headerText?: RegExp[];
+  // Text that is part of the letterhead or logo, often a short brand name
+  logoText?: RegExp[];
+  // ABA routing numbers printed on the statement
+  routingNumbers?: string[];
+}
+
+export interface BankProfile {
+  id: string;
+  name: string;
+  fingerprints: BankFingerprints;
+  dateFormat: {
+    // Left unset when the order must be inferred from the statement itself
+    order?: DateOrder;
+  };
+  amountFormat: AmountFormat;
+  // Known column layout of the transaction table, used instead of AI
+  // column inference when present
+  columns?: ColumnDefinition[];
+  accountPattern: RegExp;
+  transactionPattern: RegExp;
+  balanceLabels: {
+    opening: string[];
+    closing: string[];
+  };
+  statementPeriodPatterns: RegExp[];
+}
+
+export interface BankProfileMatch {
+  profile: BankProfile;
+  score: number;
+}
@@ -0,0 +1,14 @@
+import { genericProfile } from "./generic";
+import { BankProfile } from "./types";
+
+export const usBankProfile: BankProfile = {
+  ...genericProfile,
+  id: "us-bank",
+  name: "U.S. Bank",
+  fingerprints: {
+    headerText: [/U\.S\.\s+Bank\s+National\s+Association/i, /usbank\.com/i],
+    logoText: [/\bus\s?bank\b/i],
+    routingNumbers: ["091000022"],
+  },
+  dateFormat: { order: "MDY" },
+};
@@ -0,0 +1,31 @@
+import { genericProfile } from "./generic";
+import { BankProfile } from "./types";
+
+export const wellsFargoProfile: BankProfile = {
+  ...genericProfile,
+  id: "wells-fargo",
+  name: "Wells Fargo",
+  fingerprints: {
+    headerText: [/Wells\s+Fargo\s+Bank,?\s+N\.A\./i, /wellsfargo\.com/i],
+    logoText: [/WELLS\s+FARGO/i],
+    routingNumbers: ["121000248"],
+  },
+  dateFormat: { order: "MDY" },
+  columns: [
+    { name: "Date", dataType: "date", confidence: 0.95 },
+    { name: "Description", dataType: "text", confidence: 0.95 },
+    {
+      name: "Deposits/ Credits",
+      dataType: "amount",
+      confidence: 0.95,
+      sign: "credit",
+    },
+    {
+      name: "Withdrawals/ Debits",
+      dataType: "amount",
+      confidence: 0.95,
+      sign: "debit",
+    },
+    { name: "Ending daily balance", dataType: "balance", confidence: 0.95 },
+  ],
+};
@@ -0,0 +1,89 @@
+import {
+  CATEGORY_STORE as STORE,
+  openDatabase,
+  request,
+  transactionDone,
+} from "./localDatabase";
+
+export interface CachedCategory {
+  category: string;
+  confidence: number;
+}
+
+export interface CategoryCacheStats {
+  hits: number;
+  misses: number;
+  // Entries stored, across sessions
+  size: number;
+}
+
+// Stands in for IndexedDB where it is unavailable, e.g. private browsing
+const memoryStore = new Map<string, CachedCategory>();
+const stats = { hits: 0, misses: 0 };
+
+// Look up categories by normalized description. Every key counts as a hit
+// or a miss in the statistics.
+export async function getCachedCategories(
+  keys: string[]
+): Promise<Map<string, CachedCategory>> {
+  const found = new Map<string, CachedCategory>();
+  const db = await openDatabase();
+
+  if (db) {
+    const store = db.transaction(STORE, "readonly").objectStore(STORE);
+    const values = await Promise.all(
+      keys.map((key) => request<CachedCategory | undefined>(store.get(key)))
+    );
+    keys.forEach((key, index) => {
+      const value = values[index];
+      if (value) found.set(key, value);
+    });
+  } else {
+    keys.forEach((key) => {
+      const value = memoryStore.get(key);
+      if (value) found.set(key, value);
+    });
+  }
+
+  stats.hits += found.size;
+  stats.misses += keys.length - found.size;
+  return found;
+}
+
+export async function cacheCategories(
+  entries: Map<string, CachedCategory>
+): Promise<void> {
+  const db = await openDatabase();
+  if (!db) {
+    entries.forEach((value, key) => memoryStore.set(key, value));
+    return;
+  }
+
+  const transaction = db.transaction(STORE, "readwrite");
+  const store = transaction.objectStore(STORE);
+  entries.forEach((value, key) => store.put(value, key));
+  await transactionDone(transaction);
+}
+
+export async function getCategoryCacheStats(): Promise<CategoryCacheStats> {
+  const db = await openDatabase();
+  const size = db
+    ? await request(
+        db.transaction(STORE, "readonly").objectStore(STORE).count()
+      )
+    : memoryStore.size;
+  return { ...stats, size };
+}
+
+export async function clearCategoryCache(): Promise<void> {
+  memoryStore.clear();
+  stats.hits = 0;
+  stats.misses = 0;
+
+  const db = await openDatabase();
+  if (db) {
+    await request(
+      db.transaction(STORE, "readwrite").objectStore(STORE).clear()
+    );
+  }
+}
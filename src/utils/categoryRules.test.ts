@@ -0,0 +1,146 @@
+import { describe, expect, it } from "vitest";
+import {
+  applyCategoryRules,
+  applyRulesToTransactions,
+  createCategoryRule,
+  exportCategoryRules,
+  parseCategoryRules,
+  RuleImportError,
+  ruleMatches,
+  USER_RULE_CONFIDENCE,
+} from "./categoryRules";
+import { ParsedTransaction } from "./pdfParser";
+
+const coffee = { description: "STARBUCKS 1234 SEATTLE", amount: 4.5 };
+
+describe("applyCategoryRules", () => {
+  it("lets earlier rules win and combines tags", () => {
+    const first = createCategoryRule({
+      conditions: { description: "starbucks", maxAmount: 10 },
+      category: "Coffee",
+      tags: ["treats"],
+    });
+    const second = createCategoryRule({
+      conditions: { description: "^STAR", isRegex: true, type: "debit" },
+      category: "Dining",
+      tags: ["treats", "work"],
+      renameTo: "Starbucks",
+    });
+
+    expect(
+      applyCategoryRules([first, second], { ...coffee, type: "debit" })
+    ).toEqual({
+      ruleIds: [first.id, second.id],
+      category: "Coffee",
+      tags: ["treats", "work"],
+      description: "Starbucks",
+    });
+    expect(
+      applyCategoryRules([first, second], { ...coffee, type: "credit" })
+    ).toMatchObject({ ruleIds: [first.id], category: "Coffee" });
+  });
+
+  it("skips disabled rules, amounts out of range and invalid patterns", () => {
+    const rules = [
+      createCategoryRule({ enabled: false, category: "Coffee" }),
+      createCategoryRule({ conditions: { minAmount: 5 }, category: "Big" }),
+      createCategoryRule({
+        conditions: { description: "(", isRegex: true },
+        category: "Broken",
+      }),
+    ];
+    expect(
+      applyCategoryRules(rules, { ...coffee, type: "debit" })
+    ).toBeUndefined();
+  });
+});
+
+describe("ruleMatches", () => {
+  const rule = createCategoryRule({
+    conditions: { description: "tesco stores", type: "debit" },
+    category: "Groceries",
+    fromCorrection: true,
+    suggestedKeywords: ["Tesco Express", "tsc", "ex"],
+  });
+  const subject = (description: string) => ({
+    description,
+    amount: 12,
+    type: "debit" as const,
+  });
+
+  it("matches suggested keywords as whole words", () => {
+    expect(ruleMatches(rule, subject("TESCO STORES 3021"))).toBe(true);
+    expect(ruleMatches(rule, subject("TESCO EXPRESS LONDON"))).toBe(true);
+    expect(ruleMatches(rule, subject("TSC 4421"))).toBe(true);
+    expect(ruleMatches(rule, subject("TSCO PETROL"))).toBe(false);
+  });
+
+  it("skips short keywords and keeps the other conditions", () => {
+    expect(ruleMatches(rule, subject("EX MERCHANT"))).toBe(false);
+    expect(
+      ruleMatches(rule, { ...subject("TSC REFUND"), type: "credit" })
+    ).toBe(false);
+  });
+});
+
+describe("applyRulesToTransactions", () => {
+  const transaction: ParsedTransaction = {
+    date: "2024-01-05",
+    description: "STARBUCKS 1234 SEATTLE",
+    amount: 4.5,
+    type: "debit",
+    category: "Dining",
+    confidence: 0.8,
+  };
+  const rule = createCategoryRule({
+    conditions: { description: "starbucks" },
+    category: "Coffee",
+    renameTo: "Starbucks",
+  });
+
+  it("restores the earlier category when no rule sets one", () => {
+    const [ruled] = applyRulesToTransactions([rule], [transaction]);
+    expect(ruled).toMatchObject({
+      description: "Starbucks",
+      category: "Coffee",
+      confidence: USER_RULE_CONFIDENCE,
+    });
+
+    for (const rules of [[], [{ ...rule, enabled: false }]]) {
+      const [restored] = applyRulesToTransactions(rules, [ruled]);
+      expect(restored).toEqual(transaction);
+    }
+  });
+
+  it("keeps the earlier category when rules are applied again", () => {
+    const [once] = applyRulesToTransactions([rule], [transaction]);
+    const [twice] = applyRulesToTransactions([rule], [once]);
+    expect(twice).toEqual(once);
+  });
+});
+
+describe("parseCategoryRules", () => {
+  it("reads exported rules back", () => {
+    const rule = createCategoryRule({
+      conditions: { description: "tesco", type: "debit" },
+      category: "Groceries",
+    });
+    expect(parseCategoryRules(exportCategoryRules([rule]))).toMatchObject([
+      {
+        enabled: true,
+        conditions: { description: "tesco", type: "debit" },
+        category: "Groceries",
+      },
+    ]);
+  });
+
+  it("rejects invalid files", () => {
+    expect(() => parseCategoryRules("nope")).toThrow(RuleImportError);
+    expect(() =>
+      parseCategoryRules('[{"conditions":{"type":"refund"},"category":"X"}]')
+    ).toThrow("rule 1 type must be debit or credit");
+    expect(() => parseCategoryRules('[{"conditions":{}}]')).toThrow(
+      "rule 1 assigns nothing"
+    );
+  });
+});
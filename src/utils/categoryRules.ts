@@ -0,0 +1,361 @@
+import {
+  openDatabase,
+  request,
+  RULE_STORE as STORE,
+  transactionDone,
+} from "./localDatabase";
+import { ParsedTransaction } from "./pdfParser";
+import { normalizeDescription } from "./transactionCategorizer";
+
+// What a rule is tested against; amounts are unsigned, as in
+// ParsedTransaction
+export interface RuleSubject {
+  description: string;
+  amount: number;
+  type: "debit" | "credit";
+}
+
+export interface RuleConditions {
+  // Matched case-insensitively, as a substring unless `isRegex` is set
+  description?: string;
+  isRegex?: boolean;
+  minAmount?: number;
+  maxAmount?: number;
+  type?: "debit" | "credit";
+}
+
+export interface CategoryRule {
+  id: string;
+  enabled: boolean;
+  conditions: RuleConditions;
+  category?: string;
+  tags?: string[];
+  // Replaces the description of matching transactions
+  renameTo?: string;
+  // Rules made from a category correction in the preview, rather than
+  // written by hand or imported
+  fromCorrection?: boolean;
+  // Keywords the AI suggested when the rule was made from a correction.
+  // Descriptions holding one of them as a whole word also match.
+  suggestedKeywords?: string[];
+  createdAt: string;
+}
+
+// What the matching rules assign to a transaction. Earlier rules win for
+// the category and the new description; tags are combined.
+export interface RuleOutcome {
+  ruleIds: string[];
+  category?: string;
+  tags?: string[];
+  description?: string;
+}
+
+// A category set by the user is taken as certain
+export const USER_RULE_CONFIDENCE = 1;
+
+const EXPORT_VERSION = 1;
+
+// Stands in for IndexedDB where it is unavailable, e.g. private browsing
+const memoryStore = new Map<string, CategoryRule>();
+
+export class RuleImportError extends Error {
+  constructor(message: string) {
+    super(`Invalid rules file: ${message}`);
+    this.name = "RuleImportError";
+  }
+}
+
+function newRuleId(): string {
+  return typeof crypto !== "undefined" && "randomUUID" in crypto
+    ? crypto.randomUUID()
+    : `rule-${Date.now()}-${Math.random().toString(36).slice(2)}`;
+}
+
+function byCreation(a: CategoryRule, b: CategoryRule): number {
+  return a.createdAt.localeCompare(b.createdAt);
+}
+
+// Oldest first, the order in which rules are applied
+export async function getCategoryRules(): Promise<CategoryRule[]> {
+  const db = await openDatabase();
+  const rules = db
+    ? await request<CategoryRule[]>(
+        db.transaction(STORE, "readonly").objectStore(STORE).getAll()
+      )
+    : [...memoryStore.values()];
+  return rules.sort(byCreation);
+}
+
+export async function saveCategoryRules(rules: CategoryRule[]): Promise<void> {
+  const db = await openDatabase();
+  if (!db) {
+    rules.forEach((rule) => memoryStore.set(rule.id, rule));
+    return;
+  }
+
+  const transaction = db.transaction(STORE, "readwrite");
+  const store = transaction.objectStore(STORE);
+  rules.forEach((rule) => store.put(rule));
+  await transactionDone(transaction);
+}
+
+export async function deleteCategoryRule(id: string): Promise<void> {
+  memoryStore.delete(id);
+  const db = await openDatabase();
+  if (db) {
+    await request(
+      db.transaction(STORE, "readwrite").objectStore(STORE).delete(id)
+    );
+  }
+}
+
+export function createCategoryRule(
+  fields: Partial<Omit<CategoryRule, "id" | "createdAt">> = {}
+): CategoryRule {
+  return {
+    enabled: true,
+    conditions: {},
+    ...fields,
+    id: newRuleId(),
+    createdAt: new Date().toISOString(),
+  };
+}
+
+// The rule a category correction turns into: transactions whose
+// description shares the corrected one's merchant part, with the same
+// direction. An earlier correction of the same merchant is updated rather
+// than duplicated.
+export function ruleFromCorrection(
+  rules: CategoryRule[],
+  transaction: RuleSubject,
+  category: string
+): CategoryRule {
+  const description =
+    normalizeDescription(transaction.description) ||
+    transaction.description.trim().toLowerCase();
+  const existing = rules.find(
+    (rule) =>
+      rule.fromCorrection &&
+      !rule.conditions.isRegex &&
+      rule.conditions.description === description &&
+      rule.conditions.type === transaction.type
+  );
+  if (existing) return { ...existing, enabled: true, category };
+
+  return createCategoryRule({
+    conditions: { description, type: transaction.type },
+    category,
+    fromCorrection: true,
+  });
+}
+
+// Invalid patterns never match, so one bad rule cannot stop a run
+function descriptionMatches(
+  conditions: RuleConditions,
+  description: string
+): boolean {
+  if (!conditions.description) return true;
+  if (conditions.isRegex) {
+    try {
+      return new RegExp(conditions.description, "i").test(description);
+    } catch {
+      return false;
+    }
+  }
+  const needle = conditions.description.toLowerCase();
+  return (
+    description.toLowerCase().includes(needle) ||
+    normalizeDescription(description).includes(needle)
+  );
+}
+
+// Keywords under three characters match too much and are skipped
+function keywordMatches(keywords: string[], description: string): boolean {
+  return keywords.some(
+    (keyword) =>
+      keyword.trim().length >= 3 &&
+      new RegExp(
+        `\\b${keyword.trim().replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}\\b`,
+        "i"
+      ).test(description)
+  );
+}
+
+export function ruleMatches(rule: CategoryRule, subject: RuleSubject): boolean {
+  const { conditions, suggestedKeywords = [] } = rule;
+  return (
+    rule.enabled &&
+    (!conditions.type || conditions.type === subject.type) &&
+    (conditions.minAmount === undefined ||
+      subject.amount >= conditions.minAmount) &&
+    (conditions.maxAmount === undefined ||
+      subject.amount <= conditions.maxAmount) &&
+    (descriptionMatches(conditions, subject.description) ||
+      keywordMatches(suggestedKeywords, subject.description))
+  );
+}
+
+export function applyCategoryRules(
+  rules: CategoryRule[],
+  subject: RuleSubject
+): RuleOutcome | undefined {
+  const matched = rules.filter((rule) => ruleMatches(rule, subject));
+  if (matched.length === 0) return undefined;
+
+  const tags = Array.from(new Set(matched.flatMap((rule) => rule.tags || [])));
+  return {
+    ruleIds: matched.map((rule) => rule.id),
+    category: matched.find((rule) => rule.category)?.category,
+    tags: tags.length > 0 ? tags : undefined,
+    description: matched.find((rule) => rule.renameTo)?.renameTo,
+  };
+}
+
+export function exportCategoryRules(rules: CategoryRule[]): string {
+  return JSON.stringify({ version: EXPORT_VERSION, rules }, null, 2);
+}
+
+function optionalNumber(value: unknown, field: string): number | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== "number" || !isFinite(value)) {
+    throw new RuleImportError(`${field} must be a number`);
+  }
+  return value;
+}
+
+function optionalString(value: unknown, field: string): string | undefined {
+  if (value === undefined || value === null || value === "") return undefined;
+  if (typeof value !== "string") {
+    throw new RuleImportError(`${field} must be a string`);
+  }
+  return value;
+}
+
+// Parse rules exported from this or another browser. Imported rules get
+// new ids, so importing the same file twice adds its rules twice.
+export function parseCategoryRules(json: string): CategoryRule[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new RuleImportError("not JSON");
+  }
+
+  const list = Array.isArray(data)
+    ? data
+    : (data as { rules?: unknown } | null)?.rules;
+  if (!Array.isArray(list)) {
+    throw new RuleImportError("expected a list of rules");
+  }
+
+  return list.map((entry, index) => {
+    const field = (name: string) => `rule ${index + 1} ${name}`;
+    if (!entry || typeof entry !== "object") {
+      throw new RuleImportError(`rule ${index + 1} is not an object`);
+    }
+    const rule = entry as Partial<CategoryRule>;
+    const conditions = (rule.conditions || {}) as RuleConditions;
+
+    if (
+      conditions.type !== undefined &&
+      conditions.type !== "debit" &&
+      conditions.type !== "credit"
+    ) {
+      throw new RuleImportError(`${field("type")} must be debit or credit`);
+    }
+    if (
+      rule.tags !== undefined &&
+      (!Array.isArray(rule.tags) ||
+        rule.tags.some((tag) => typeof tag !== "string"))
+    ) {
+      throw new RuleImportError(`${field("tags")} must be a list of strings`);
+    }
+    const description = optionalString(
+      conditions.description,
+      field("description")
+    );
+    if (conditions.isRegex && description) {
+      try {
+        new RegExp(description);
+      } catch {
+        throw new RuleImportError(
+          `${field("description")} is not a valid pattern`
+        );
+      }
+    }
+
+    const imported = createCategoryRule({
+      enabled: rule.enabled !== false,
+      conditions: {
+        description,
+        isRegex: conditions.isRegex === true || undefined,
+        minAmount: optionalNumber(conditions.minAmount, field("minAmount")),
+        maxAmount: optionalNumber(conditions.maxAmount, field("maxAmount")),
+        type: conditions.type,
+      },
+      category: optionalString(rule.category, field("category")),
+      tags: rule.tags,
+      renameTo: optionalString(rule.renameTo, field("renameTo")),
+      fromCorrection: rule.fromCorrection === true || undefined,
+    });
+    if (!imported.category && !imported.tags?.length && !imported.renameTo) {
+      throw new RuleImportError(`rule ${index + 1} assigns nothing`);
+    }
+    // Keep the file's order when applying
+    return {
+      ...imported,
+      createdAt: new Date(Date.now() + index).toISOString(),
+    };
+  });
+}
+
+// Re-apply the rules to parsed transactions after they change. Rules are
+// matched against the description as printed, even when an earlier rule
+// renamed it, and a category no rule sets any more goes back to the one
+// the rules replaced.
+export function applyRulesToTransactions(
+  rules: CategoryRule[],
+  transactions: ParsedTransaction[]
+): ParsedTransaction[] {
+  return transactions.map((transaction) => {
+    const {
+      tags,
+      ruleIds,
+      originalDescription,
+      categoryBeforeRules,
+      ...rest
+    } = transaction;
+    // The transaction as it was before any rule applied
+    const unruled: ParsedTransaction = {
+      ...rest,
+      ...categoryBeforeRules,
+      description: originalDescription ?? rest.description,
+    };
+    const outcome = applyCategoryRules(rules, unruled);
+    if (!outcome) {
+      return tags || ruleIds || originalDescription || categoryBeforeRules
+        ? unruled
+        : transaction;
+    }
+
+    return {
+      ...unruled,
+      description: outcome.description ?? unruled.description,
+      originalDescription: outcome.description
+        ? unruled.description
+        : undefined,
+      tags: outcome.tags,
+      ruleIds: outcome.ruleIds,
+      ...(outcome.category && {
+        category: outcome.category,
+        confidence: USER_RULE_CONFIDENCE,
+        categoryFailure: undefined,
+        categoryBeforeRules: {
+          category: unruled.category,
+          confidence: unruled.confidence,
+          categoryFailure: unruled.categoryFailure,
+        },
+      }),
+    };
+  });
+}
@@ -0,0 +1,212 @@
+export interface TaxonomyCategory {
+  name: string;
+  // Name of a top-level category; categories are at most two levels deep
+  parent?: string;
+  // Other names that mean this category, e.g. from the AI or older rules
+  synonyms?: string[];
+  // Chart-of-accounts code for bookkeeping exports
+  accountCode?: string;
+}
+
+export type CategoryTaxonomy = TaxonomyCategory[];
+
+// Used when a categorizer's answer does not map onto the taxonomy
+export const FALLBACK_CATEGORY = "Other";
+
+const STORAGE_KEY = "categoryTaxonomy";
+
+export const DEFAULT_TAXONOMY: CategoryTaxonomy = [
+  { name: "Income", synonyms: ["Deposits"] },
+  { name: "Salary", parent: "Income", synonyms: ["Payroll", "Wages"] },
+  { name: "Interest & Dividends", parent: "Income", synonyms: ["Interest"] },
+  { name: "Refunds", parent: "Income" },
+  { name: "Food & Dining", synonyms: ["Food", "Dining"] },
+  { name: "Groceries", parent: "Food & Dining", synonyms: ["Supermarket"] },
+  {
+    name: "Restaurants",
+    parent: "Food & Dining",
+    synonyms: ["Restaurant", "Takeaway", "Fast Food"],
+  },
+  {
+    name: "Coffee",
+    parent: "Food & Dining",
+    synonyms: ["Cafe", "Coffee Shops"],
+  },
+  { name: "Transportation", synonyms: ["Transport", "Auto & Transport"] },
+  { name: "Fuel", parent: "Transportation", synonyms: ["Gas", "Petrol"] },
+  { name: "Rideshare & Taxi", parent: "Transportation", synonyms: ["Taxi"] },
+  {
+    name: "Public Transit",
+    parent: "Transportation",
+    synonyms: ["Transit", "Parking"],
+  },
+  { name: "Travel", synonyms: ["Flights", "Hotels", "Lodging"] },
+  { name: "Bills & Utilities", synonyms: ["Bills", "Utilities"] },
+  {
+    name: "Housing",
+    parent: "Bills & Utilities",
+    synonyms: ["Rent", "Mortgage"],
+  },
+  {
+    name: "Electricity & Water",
+    parent: "Bills & Utilities",
+    synonyms: ["Electricity", "Water", "Energy"],
+  },
+  {
+    name: "Internet & Phone",
+    parent: "Bills & Utilities",
+    synonyms: ["Internet", "Phone", "Mobile"],
+  },
+  { name: "Insurance", parent: "Bills & Utilities" },
+  {
+    name: "Subscriptions",
+    parent: "Bills & Utilities",
+    synonyms: ["Streaming"],
+  },
+  { name: "Shopping", synonyms: ["Retail", "Online Shopping"] },
+  { name: "Entertainment", synonyms: ["Leisure", "Recreation"] },
+  { name: "Healthcare", synonyms: ["Health", "Medical"] },
+  { name: "Pharmacy", parent: "Healthcare" },
+  { name: "Cash & ATM", synonyms: ["Cash", "ATM", "Withdrawal"] },
+  { name: "Transfers", synonyms: ["Transfer"] },
+  { name: "Fees & Charges", synonyms: ["Fees", "Bank Fees", "Charges"] },
+  { name: "Taxes", synonyms: ["Tax"] },
+  { name: FALLBACK_CATEGORY, synonyms: ["Uncategorized", "Miscellaneous"] },
+];
+
+function key(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/\s+and\s+/g, " & ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function loadTaxonomy(): CategoryTaxonomy {
+  try {
+    const stored =
+      typeof localStorage !== "undefined"
+        ? localStorage.getItem(STORAGE_KEY)
+        : null;
+    return stored ? JSON.parse(stored) : DEFAULT_TAXONOMY;
+  } catch {
+    return DEFAULT_TAXONOMY;
+  }
+}
+
+let taxonomy: CategoryTaxonomy = loadTaxonomy();
+
+export function getTaxonomy(): CategoryTaxonomy {
+  return taxonomy;
+}
+
+// Problems that would make the taxonomy ambiguous; empty when it is valid
+export function validateTaxonomy(categories: CategoryTaxonomy): string[] {
+  const errors: string[] = [];
+  const owners = new Map<string, TaxonomyCategory>();
+
+  for (const category of categories) {
+    if (!category.name.trim()) {
+      errors.push("Every category needs a name");
+      continue;
+    }
+    for (const name of [category.name, ...(category.synonyms || [])]) {
+      const owner = owners.get(key(name));
+      if (owner && owner !== category) {
+        errors.push(
+          key(owner.name) === key(category.name)
+            ? `${category.name} is listed twice`
+            : `"${name}" is used by both ${owner.name} and ${category.name}`
+        );
+      }
+      owners.set(key(name), category);
+    }
+  }
+
+  for (const category of categories) {
+    const parentName = category.parent;
+    if (!parentName) continue;
+    const parent = categories.find((c) => key(c.name) === key(parentName));
+    if (!parent) {
+      errors.push(`${category.name}: parent ${category.parent} does not exist`);
+    } else if (parent === category) {
+      errors.push(`${category.name} cannot be its own parent`);
+    } else if (parent.parent) {
+      errors.push(`${category.name}: ${parent.name} is itself a subcategory`);
+    }
+  }
+  return Array.from(new Set(errors));
+}
+
+// Replace the taxonomy; remembered across reloads
+export function setTaxonomy(categories: CategoryTaxonomy): void {
+  const errors = validateTaxonomy(categories);
+  if (errors.length > 0) {
+    throw new Error(`Invalid category taxonomy: ${errors.join("; ")}`);
+  }
+
+  taxonomy = categories;
+  if (typeof localStorage !== "undefined") {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(categories));
+  }
+}
+
+export function resetTaxonomy(): void {
+  taxonomy = DEFAULT_TAXONOMY;
+  if (typeof localStorage !== "undefined") {
+    localStorage.removeItem(STORAGE_KEY);
+  }
+}
+
+// The taxonomy entry a category name or one of its synonyms refers to,
+// ignoring case and "and" versus "&"
+export function findCategory(
+  name: string | undefined,
+  categories: CategoryTaxonomy = taxonomy
+): TaxonomyCategory | undefined {
+  if (!name) return undefined;
+  const wanted = key(name);
+  return categories.find(
+    (category) =>
+      key(category.name) === wanted ||
+      (category.synonyms || []).some((synonym) => key(synonym) === wanted)
+  );
+}
+
+// The taxonomy name for a categorizer's answer, or the fallback category
+// when it has none
+export function mapToTaxonomy(name: string | undefined): string {
+  return findCategory(name)?.name ?? FALLBACK_CATEGORY;
+}
+
+// The top-level category a category rolls up to. Names outside the
+// taxonomy, such as ones set by the user's rules, are their own parent.
+export function parentCategory(name: string): string {
+  const category = findCategory(name);
+  if (!category) return name;
+  return category.parent
+    ? findCategory(category.parent)?.name ?? category.parent
+    : category.name;
+}
+
+export function accountCode(name: string): string | undefined {
+  return findCategory(name)?.accountCode;
+}
+
+// Categories in display order: each top-level category followed by its
+// subcategories, as "Parent > Child"
+export function taxonomyPaths(
+  categories: CategoryTaxonomy = taxonomy
+): Array<{ name: string; path: string }> {
+  const children = (parent: TaxonomyCategory) =>
+    categories.filter((c) => c.parent && key(c.parent) === key(parent.name));
+  return categories
+    .filter((category) => !category.parent)
+    .flatMap((parent) => [
+      { name: parent.name, path: parent.name },
+      ...children(parent).map((child) => ({
+        name: child.name,
+        path: `${parent.name} > ${child.name}`,
+      })),
+    ]);
+}
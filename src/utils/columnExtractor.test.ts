@@ -0,0 +1,109 @@
+import { describe, expect, it } from "vitest";
+import {
+  ColumnDefinition,
+  extractTransactionsByColumns,
+  locateColumns,
+} from "./columnExtractor";
+import { buildPageLayout, PositionedText } from "./textLayout";
+
+// One page from rows of [text, x] cells, 14pt apart
+function page(rows: Array<Array<[string, number]>>) {
+  const items: PositionedText[] = rows.flatMap((cells, index) =>
+    cells.map(([str, x]) => ({
+      str,
+      x,
+      y: 700 - index * 14,
+      width: str.length * 4,
+      height: 10,
+    }))
+  );
+  return buildPageLayout(1, items);
+}
+
+const HEADER: Array<[string, number]> = [
+  ["Date", 50],
+  ["Description", 110],
+  ["Withdrawals", 300],
+  ["Deposits", 380],
+  ["Balance", 460],
+];
+
+const COLUMNS: ColumnDefinition[] = [
+  { name: "Date", dataType: "date", confidence: 0.9 },
+  { name: "Description", dataType: "text", confidence: 0.9 },
+  { name: "Withdrawals", dataType: "amount", confidence: 0.9 },
+  { name: "Deposits", dataType: "amount", confidence: 0.9 },
+  { name: "Balance", dataType: "balance", confidence: 0.9 },
+];
+
+describe("locateColumns", () => {
+  it("pins definitions to header cells and signs split amount columns", () => {
+    const [header] = page([HEADER]).rows;
+    expect(
+      locateColumns(header, COLUMNS).map(({ name, sign, x0 }) => ({
+        name,
+        sign,
+        x0,
+      }))
+    ).toEqual([
+      { name: "Date", sign: undefined, x0: 50 },
+      { name: "Description", sign: undefined, x0: 110 },
+      { name: "Withdrawals", sign: "debit", x0: 300 },
+      { name: "Deposits", sign: "credit", x0: 380 },
+      { name: "Balance", sign: undefined, x0: 460 },
+    ]);
+  });
+
+  it("does not match punctuation-only cells to a definition", () => {
+    const [header] = page([
+      [
+        ["Date", 50],
+        ["$", 110],
+        ["Amount ($)", 200],
+        ["—", 350],
+      ],
+    ]).rows;
+    const columns: ColumnDefinition[] = [
+      { name: "Date", dataType: "date", confidence: 0.9 },
+      { name: "Amount ($)", dataType: "amount", confidence: 0.9 },
+    ];
+    expect(locateColumns(header, columns).map((column) => column.name)).toEqual(
+      ["Date", "$", "Amount ($)", "—"]
+    );
+  });
+});
+
+describe("extractTransactionsByColumns", () => {
+  it("reads rows by column and joins continuation lines", () => {
+    const layout = page([
+      HEADER,
+      [
+        ["01/05/2024", 50],
+        ["Coffee shop", 110],
+        ["3.50", 300],
+        ["96.50", 460],
+      ],
+      [["SEATTLE WA", 110]],
+      [
+        ["01/06/2024", 50],
+        ["Salary", 110],
+        ["1,000.00", 380],
+        ["1,096.50", 460],
+      ],
+    ]);
+    expect(extractTransactionsByColumns([layout], COLUMNS)).toMatchObject([
+      {
+        date: "01/05/2024",
+        description: "Coffee shop SEATTLE WA",
+        amount: -3.5,
+        balance: 96.5,
+      },
+      {
+        date: "01/06/2024",
+        description: "Salary",
+        amount: 1000,
+        balance: 1096.5,
+      },
+    ]);
+  });
+});
@@ -0,0 +1,244 @@
+import { AmountFormat, parseAmount } from "./amountParser";
+import { isDateText } from "./dateParser";
+import { PageLayout, TextCell, TextRow } from "./textLayout";
+
+export interface ColumnDefinition {
+  name: string;
+  dataType: "date" | "text" | "amount" | "balance";
+  confidence: number;
+  // Set on amount columns whose header implies the sign, such as separate
+  // "Withdrawals" and "Deposits" columns
+  sign?: "debit" | "credit";
+}
+
+export interface LocatedColumn extends ColumnDefinition {
+  x0: number;
+  x1: number;
+}
+
+// A transaction as read off the page, before normalization and
+// categorization. Debits carry a negative amount.
+export interface RawTransaction {
+  date: string;
+  description: string;
+  amount: number;
+  balance?: number;
+  currency?: string;
+}
+
+const HEADER_KEYWORDS =
+  /description|details|particulars|amount|balance|withdrawals?|deposits?|debits?|credits?|paid (?:in|out)|money (?:in|out)/i;
+
+const DEBIT_HEADER =
+  /withdrawals?|debits?|paid out|money out|payments?|charges?|dr\b/i;
+const CREDIT_HEADER = /deposits?|credits?|paid in|money in|receipts?|cr\b/i;
+
+// A header row either carries the usual English labels or names a date
+// column and at least one other column of the known layout
+export function isHeaderRow(
+  row: TextRow,
+  columns: ColumnDefinition[] = []
+): boolean {
+  if (row.cells.length < 2) return false;
+  if (/date/i.test(row.text) && HEADER_KEYWORDS.test(row.text)) return true;
+
+  const matched = row.cells
+    .map((cell) => matchDefinition(cell, columns))
+    .filter((column): column is ColumnDefinition => !!column);
+  return (
+    matched.length >= 2 && matched.some((column) => column.dataType === "date")
+  );
+}
+
+export function findHeaderRow(
+  layouts: PageLayout[],
+  columns: ColumnDefinition[] = []
+): TextRow | undefined {
+  for (const layout of layouts) {
+    const header = layout.rows.find((row) => isHeaderRow(row, columns));
+    if (header) return header;
+  }
+  return undefined;
+}
+
+export function inferAmountSign(name: string): ColumnDefinition["sign"] {
+  if (/balance/i.test(name)) return undefined;
+  if (DEBIT_HEADER.test(name)) return "debit";
+  if (CREDIT_HEADER.test(name)) return "credit";
+  return undefined;
+}
+
+function guessColumn(name: string): ColumnDefinition {
+  if (/date/i.test(name)) {
+    return { name, dataType: "date", confidence: 0.6 };
+  }
+  if (/balance/i.test(name)) {
+    return { name, dataType: "balance", confidence: 0.6 };
+  }
+  if (/amount/i.test(name) || inferAmountSign(name)) {
+    return { name, dataType: "amount", confidence: 0.6 };
+  }
+  return { name, dataType: "text", confidence: 0.4 };
+}
+
+function normalizeName(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
+}
+
+function matchDefinition(
+  cell: TextCell,
+  columns: ColumnDefinition[]
+): ColumnDefinition | undefined {
+  const cellName = normalizeName(cell.text);
+  // Punctuation-only cells such as "$" would be part of every name
+  if (!cellName) return undefined;
+  return (
+    columns.find((column) => normalizeName(column.name) === cellName) ||
+    columns.find((column) => {
+      const columnName = normalizeName(column.name);
+      return (
+        columnName.length > 0 &&
+        (cellName.includes(columnName) || columnName.includes(cellName))
+      );
+    })
+  );
+}
+
+// Pin the inferred column definitions to the x-ranges of the header cells.
+// Header cells the definitions do not cover are typed from their label.
+export function locateColumns(
+  header: TextRow,
+  columns: ColumnDefinition[]
+): LocatedColumn[] {
+  return header.cells.map((cell) => {
+    const definition = matchDefinition(cell, columns) || guessColumn(cell.text);
+    const sign =
+      definition.dataType === "amount"
+        ? definition.sign || inferAmountSign(cell.text)
+        : undefined;
+    return { ...definition, sign, x0: cell.x0, x1: cell.x1 };
+  });
+}
+
+function overlap(cell: TextCell, column: LocatedColumn): number {
+  return Math.min(cell.x1, column.x1) - Math.max(cell.x0, column.x0);
+}
+
+function assignColumn(cell: TextCell, columns: LocatedColumn[]): number {
+  let best = 0;
+  let bestScore = -Infinity;
+  columns.forEach((column, index) => {
+    const score =
+      overlap(cell, column) > 0
+        ? overlap(cell, column)
+        : -Math.abs(
+            (cell.x0 + cell.x1) / 2 - (column.x0 + column.x1) / 2
+          );
+    if (score > bestScore) {
+      bestScore = score;
+      best = index;
+    }
+  });
+  return best;
+}
+
+function readRow(row: TextRow, columns: LocatedColumn[]): string[] {
+  const values = columns.map(() => "");
+  for (const cell of row.cells) {
+    const index = assignColumn(cell, columns);
+    values[index] = values[index] ? `${values[index]} ${cell.text}` : cell.text;
+  }
+  return values;
+}
+
+// Read transactions cell by cell using the header's column positions.
+// Rows without a date continue the previous transaction's description.
+export function extractTransactionsByColumns(
+  layouts: PageLayout[],
+  definitions: ColumnDefinition[],
+  format?: AmountFormat
+): RawTransaction[] {
+  const firstHeader = findHeaderRow(layouts, definitions);
+  if (!firstHeader) return [];
+
+  let columns = locateColumns(firstHeader, definitions);
+  const dateIndex = () => columns.findIndex((c) => c.dataType === "date");
+  if (
+    dateIndex() === -1 ||
+    !columns.some((c) => c.dataType === "amount")
+  ) {
+    return [];
+  }
+
+  const transactions: RawTransaction[] = [];
+  let current: RawTransaction | null = null;
+
+  for (const layout of layouts) {
+    const headerIndex = layout.rows.findIndex((row) =>
+      isHeaderRow(row, definitions)
+    );
+    if (headerIndex !== -1) {
+      columns = locateColumns(layout.rows[headerIndex], definitions);
+      current = null;
+    }
+    const rows =
+      headerIndex !== -1 ? layout.rows.slice(headerIndex + 1) : layout.rows;
+
+    for (const row of rows) {
+      const values = readRow(row, columns);
+      const date = values[dateIndex()]?.trim();
+
+      let amount: number | undefined;
+      let balance: number | undefined;
+      let currency: string | undefined;
+      const description: string[] = [];
+
+      columns.forEach((column, index) => {
+        const value = values[index];
+        if (!value) return;
+        switch (column.dataType) {
+          case "amount": {
+            const parsed = parseAmount(value, format);
+            if (!parsed) break;
+            currency = currency || parsed.currency;
+            if (column.sign === "debit") amount = -Math.abs(parsed.value);
+            else if (column.sign === "credit") amount = Math.abs(parsed.value);
+            else amount = parsed.value;
+            break;
+          }
+          case "balance":
+            balance = parseAmount(value, format)?.value;
+            break;
+          case "text":
+            description.push(value);
+            break;
+        }
+      });
+
+      if (date && isDateText(date) && amount !== undefined) {
+        current = {
+          date,
+          description: description.join(" "),
+          amount,
+          balance,
+          currency,
+        };
+        transactions.push(current);
+      } else if (
+        current &&
+        !date &&
+        amount === undefined &&
+        balance === undefined &&
+        description.length > 0
+      ) {
+        current.description = `${current.description} ${description.join(
+          " "
+        )}`.trim();
+      } else {
+        current = null;
+      }
+    }
+  }
+
+  return transactions.filter((t) => t.description);
+}
@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import { createCsv, DEFAULT_CSV_OPTIONS } from "./csvExporter";
+import { ExportOptions } from "./excelExporter";
+import { ParsedTransaction } from "./pdfParser";
+
+const options: ExportOptions = {
+  includeCategories: false,
+  includeBalance: false,
+  dateFormat: "DD/MM/YYYY",
+  currency: "EUR",
+  groupByMonth: false,
+  includeSummary: false,
+};
+
+const transactions: ParsedTransaction[] = [
+  {
+    date: "2024-01-05",
+    description: 'Café "Le Coin"; Paris',
+    amount: 1234.5,
+    type: "debit",
+  },
+  {
+    date: "2024-01-06",
+    description: '=HYPERLINK("http://example.com")',
+    amount: 10,
+    type: "credit",
+  },
+];
+
+describe("createCsv", () => {
+  it("quotes only fields that need it", () => {
+    expect(createCsv(transactions.slice(0, 1), options)).toBe(
+      'Date,Description,Amount,Type\r\n05/01/2024,"Café ""Le Coin""; Paris",1234.50,Debit\r\n'
+    );
+  });
+
+  it("applies the delimiter, decimal separator, quoting and BOM", () => {
+    const csv = createCsv(transactions.slice(0, 1), options, {
+      delimiter: ";",
+      quoting: "all",
+      includeBom: true,
+      lineEnding: "\n",
+      decimalSeparator: ",",
+    });
+    expect(csv).toBe(
+      '\uFEFF"Date";"Description";"Amount";"Type"\n"05/01/2024";"Café ""Le Coin""; Paris";"1234,50";"Debit"\n'
+    );
+  });
+
+  it("writes dates in the chosen format", () => {
+    const csv = createCsv(
+      transactions.slice(0, 1),
+      { ...options, dateFormat: "YYYY-MM-DD" },
+      { ...DEFAULT_CSV_OPTIONS, delimiter: "\t" }
+    );
+    expect(csv.split("\r\n")[1].split("\t")[0]).toBe("2024-01-05");
+  });
+
+  it("keeps text from being run as a formula", () => {
+    const rows = createCsv(
+      [
+        transactions[1],
+        { ...transactions[1], description: "-REFUND" },
+        { ...transactions[1], description: "@SUM(A1)" },
+      ],
+      options
+    ).split("\r\n");
+    expect(rows.slice(1, 4)).toEqual([
+      '06/01/2024,"\'=HYPERLINK(""http://example.com"")",10.00,Credit',
+      "06/01/2024,'-REFUND,10.00,Credit",
+      "06/01/2024,'@SUM(A1),10.00,Credit",
+    ]);
+  });
+});
@@ -0,0 +1,98 @@
+import { BankStatementData, ParsedTransaction } from "./pdfParser";
+import {
+  ExportOptions,
+  exportFilename,
+  formatDate,
+  prepareExport,
+  transactionColumns,
+} from "./excelExporter";
+import { downloadFile } from "./download";
+
+export interface CsvOptions {
+  // A tab makes a TSV file
+  delimiter: "," | ";" | "\t" | "|";
+  // "minimal" quotes only fields holding a delimiter, quote or line break
+  quoting: "minimal" | "all";
+  // Lets Excel on Windows recognise the file as UTF-8
+  includeBom: boolean;
+  lineEnding: "\r\n" | "\n";
+  decimalSeparator: "." | ",";
+}
+
+export const DEFAULT_CSV_OPTIONS: CsvOptions = {
+  delimiter: ",",
+  quoting: "minimal",
+  includeBom: false,
+  lineEnding: "\r\n",
+  decimalSeparator: ".",
+};
+
+const BOM = "\uFEFF";
+
+// Spreadsheet apps run text starting with these as a formula
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+// The Transactions sheet as a flat file, one row per transaction
+export function createCsv(
+  transactions: ParsedTransaction[],
+  options: ExportOptions,
+  csv: CsvOptions = DEFAULT_CSV_OPTIONS
+): string {
+  const columns = transactionColumns(transactions, options);
+
+  const rows = [
+    columns.map((column) => column.header),
+    ...transactions.map((transaction) =>
+      columns.map((column) => {
+        const value = column.value(transaction);
+        if (value === undefined) return "";
+        switch (column.kind) {
+          case "date":
+            return formatDate(String(value), options.dateFormat);
+          case "currency":
+          case "confidence":
+            return Number(value).toFixed(2).replace(".", csv.decimalSeparator);
+          default:
+            return neutralizeFormula(String(value));
+        }
+      })
+    ),
+  ];
+
+  const text = rows
+    .map((row) => row.map((field) => quote(field, csv)).join(csv.delimiter))
+    .join(csv.lineEnding);
+  return (csv.includeBom ? BOM : "") + text + csv.lineEnding;
+}
+
+// A leading apostrophe makes a description such as "=HYPERLINK(...)" or
+// "-REFUND" display as text instead
+function neutralizeFormula(text: string): string {
+  return FORMULA_START.test(text) ? `'${text}` : text;
+}
+
+function quote(field: string, csv: CsvOptions): string {
+  const needsQuotes =
+    csv.quoting === "all" ||
+    field.includes(csv.delimiter) ||
+    /["\r\n]/.test(field);
+  return needsQuotes ? `"${field.replace(/"/g, '""')}"` : field;
+}
+
+// Export one statement, or several combined into one file
+export async function exportToCsv(
+  statements: BankStatementData | BankStatementData[],
+  options: ExportOptions
+): Promise<void> {
+  const list = Array.isArray(statements) ? statements : [statements];
+  if (list.length === 0) return;
+
+  const csv = { ...DEFAULT_CSV_OPTIONS, ...options.csv };
+  const data = await prepareExport(list, options);
+  const tsv = csv.delimiter === "\t";
+  downloadFile(
+    createCsv(data.transactions, options, csv),
+    exportFilename(data, tsv ? "tsv" : "csv"),
+    `${tsv ? "text/tab-separated-values" : "text/csv"};charset=utf-8`
+  );
+}
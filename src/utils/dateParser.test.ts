@@ -0,0 +1,110 @@
+import { describe, expect, it } from "vitest";
+import {
+  createDateResolver,
+  DATE_PATTERN_SOURCE,
+  inferDateOrder,
+  isDateText,
+  parseDate,
+  sortByDate,
+} from "./dateParser";
+
+describe("isDateText", () => {
+  it.each([
+    "03/04/2024",
+    "3-4-24",
+    "03/04",
+    "12.01.2024",
+    "12 Jan",
+    "Jan 12",
+    "2024/03/04",
+  ])("accepts %s", (text) => {
+    expect(isDateText(text)).toBe(true);
+  });
+
+  it.each(["12.50", "34.56", "1.5", "1,234.56"])(
+    "rejects amount %s",
+    (text) => {
+      expect(isDateText(text)).toBe(false);
+    }
+  );
+});
+
+describe("DATE_PATTERN_SOURCE", () => {
+  it("finds no date inside an amount", () => {
+    const pattern = new RegExp(DATE_PATTERN_SOURCE, "i");
+    expect("Total fees 1,234.56".match(pattern)).toBeNull();
+    expect("Ref 123/4567 25.00".match(pattern)).toBeNull();
+  });
+});
+
+describe("parseDate", () => {
+  it("reads month names without an order", () => {
+    expect(parseDate("12-Jan-24").date).toBe("2024-01-12");
+    expect(parseDate("January 12, 2024").date).toBe("2024-01-12");
+  });
+
+  it("reports dates it cannot resolve", () => {
+    expect(parseDate("03/04/2024").issue).toBe("ambiguous-order");
+    expect(parseDate("25/03").issue).toBe("missing-year");
+  });
+
+  it("takes the year from the statement period", () => {
+    const period = { start: "2023-12-15", end: "2024-01-14" };
+    expect(parseDate("12/28", "MDY", period).date).toBe("2023-12-28");
+    expect(parseDate("01/03", "MDY", period).date).toBe("2024-01-03");
+  });
+
+  it("reads year-first dates without an order", () => {
+    expect(parseDate("2024/03/04").date).toBe("2024-03-04");
+    expect(parseDate("2024.03.04").date).toBe("2024-03-04");
+  });
+});
+
+describe("inferDateOrder", () => {
+  it("goes with the majority of unambiguous dates", () => {
+    expect(inferDateOrder(["25/03/2024", "28/03/2024", "03/15/2024"])).toBe(
+      "DMY"
+    );
+    expect(inferDateOrder(["03/25/2024", "03/28/2024", "15/03/2024"])).toBe(
+      "MDY"
+    );
+    expect(inferDateOrder(["25/03/2024", "03/25/2024"])).toBe("DMY");
+    expect(inferDateOrder(["03/04/2024", "05/06/2024"])).toBeUndefined();
+  });
+});
+
+describe("createDateResolver", () => {
+  it("infers the order from unambiguous dates", () => {
+    const resolver = createDateResolver(["25/03/2024", "03/04/2024"], {
+      order: "MDY",
+    });
+    expect(resolver.order).toBe("DMY");
+    expect(resolver.resolve("03/04/2024").date).toBe("2024-04-03");
+  });
+
+  it("keeps the profile order when amounts sit among the dates", () => {
+    const resolver = createDateResolver(["03/04/2024", "05/06/2024", "12.50"], {
+      order: "DMY",
+    });
+    expect(resolver.order).toBe("DMY");
+    expect(resolver.resolve("03/04/2024").date).toBe("2024-04-03");
+  });
+});
+
+describe("sortByDate", () => {
+  it("keeps undated rows after the row they followed", () => {
+    const rows = [
+      { date: "2024-01-09", id: 1 },
+      { date: "??", dateIssue: "unparsed" as const, id: 2 },
+      { date: "2024-01-02", id: 3 },
+      { date: "2024-01-05", id: 4 },
+      { date: "??", dateIssue: "unparsed" as const, id: 5 },
+      { date: "2024-01-01", id: 6 },
+    ];
+    const order = sortByDate(rows).map((row) => row.id);
+    expect(order).toEqual([6, 3, 4, 5, 1, 2]);
+    expect(sortByDate([...rows].reverse()).map((row) => row.id)).toEqual([
+      6, 5, 3, 2, 4, 1,
+    ]);
+  });
+});
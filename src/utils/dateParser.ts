@@ -0,0 +1,254 @@
+// Year-first dates need no order; they are recognised by their
+// four-digit year
+export type DateOrder = "MDY" | "DMY";
+
+export type DateIssue = "ambiguous-order" | "missing-year" | "unparsed";
+
+export interface DateParseResult {
+  // ISO date (YYYY-MM-DD) when the date could be resolved
+  date?: string;
+  issue?: DateIssue;
+}
+
+export interface DateRange {
+  start: string;
+  end: string;
+}
+
+interface DateToken {
+  // Numeric parts in the order they appear, e.g. [3, 4, 2024] for 03/04/2024
+  parts: number[];
+  // Set when the month is spelled out, in which case the numeric parts
+  // hold the day and, optionally, the year
+  month?: number;
+  year?: number;
+}
+
+const MONTHS = [
+  "jan",
+  "feb",
+  "mar",
+  "apr",
+  "may",
+  "jun",
+  "jul",
+  "aug",
+  "sep",
+  "oct",
+  "nov",
+  "dec",
+];
+
+const MONTH_NAME =
+  "(?:Jan(?:uary)?|Feb(?:ruary)?|Mar(?:ch)?|Apr(?:il)?|May|June?|July?|Aug(?:ust)?|Sep(?:t(?:ember)?)?|Oct(?:ober)?|Nov(?:ember)?|Dec(?:ember)?)\\.?";
+
+// Regex source matching the date formats found on statements: numeric
+// dates with or without a year, year-first dates, and dates with a month
+// name ("12 Jan", "12-Jan-24", "Jan 12", "January 12, 2024"). Dotted dates
+// need a year, since "12.50" is an amount; numeric dates never start or
+// end inside a longer number.
+export const DATE_PATTERN_SOURCE = [
+  "(?<!\\d)\\d{4}[/.-]\\d{1,2}[/.-]\\d{1,2}(?!\\d)",
+  "(?<!\\d)\\d{1,2}\\.\\d{1,2}\\.\\d{2,4}(?!\\d)",
+  "(?<!\\d)\\d{1,2}[/-]\\d{1,2}(?:[/-]\\d{2,4})?(?![\\d.,]?\\d)",
+  `\\d{1,2}(?:\\s+|-)${MONTH_NAME}(?:(?:\\s+|-)\\d{2,4})?`,
+  `${MONTH_NAME}\\s+\\d{1,2}(?:,?\\s+\\d{4})?`,
+].join("|");
+
+const DATE_ONLY = new RegExp(`^(?:${DATE_PATTERN_SOURCE})$`, "i");
+const DATE_ANYWHERE = new RegExp(`(?:${DATE_PATTERN_SOURCE})`, "gi");
+
+export function isDateText(text: string): boolean {
+  return DATE_ONLY.test(text.trim());
+}
+
+function monthIndex(name: string): number | undefined {
+  const index = MONTHS.indexOf(name.slice(0, 3).toLowerCase());
+  return index === -1 ? undefined : index + 1;
+}
+
+function expandYear(year: number): number {
+  return year < 100 ? year + (year < 50 ? 2000 : 1900) : year;
+}
+
+function tokenize(raw: string): DateToken | undefined {
+  const text = raw.trim().replace(/,/g, " ");
+  if (!isDateText(raw)) return undefined;
+
+  const iso = text.match(/^(\d{4})[/.-](\d{1,2})[/.-](\d{1,2})$/);
+  if (iso) {
+    return {
+      parts: [Number(iso[3])],
+      month: Number(iso[2]),
+      year: Number(iso[1]),
+    };
+  }
+
+  const name = text.match(/[A-Za-z]+/);
+  if (name) {
+    const numbers = (text.match(/\d+/g) || []).map(Number);
+    const [day, year] = numbers;
+    return {
+      parts: [day],
+      month: monthIndex(name[0]),
+      year: year === undefined ? undefined : expandYear(year),
+    };
+  }
+
+  const parts = text.split(/[/.-]/).map(Number);
+  return {
+    parts: parts.slice(0, 2),
+    year: parts[2] === undefined ? undefined : expandYear(parts[2]),
+  };
+}
+
+function toISO(year: number, month: number, day: number): string | undefined {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (
+    date.getUTCFullYear() !== year ||
+    date.getUTCMonth() !== month - 1 ||
+    date.getUTCDate() !== day
+  ) {
+    return undefined;
+  }
+  return date.toISOString().split("T")[0];
+}
+
+// Infer day-first vs month-first ordering from every numeric date on the
+// statement. Each date with a part over 12, like "25/03", is a vote and
+// the majority wins, so one misread date cannot flip the order; a tie
+// goes to day-first. When no part ever exceeds 12 the order cannot be
+// told from the data and undefined is returned.
+export function inferDateOrder(raws: string[]): DateOrder | undefined {
+  let dayFirst = 0;
+  let monthFirst = 0;
+
+  for (const raw of raws) {
+    const token = tokenize(raw);
+    if (!token || token.month !== undefined) continue;
+    const [first, second] = token.parts;
+    if (first > 12 && second <= 12) dayFirst++;
+    if (second > 12 && first <= 12) monthFirst++;
+  }
+
+  if (dayFirst === 0 && monthFirst === 0) return undefined;
+  return dayFirst >= monthFirst ? "DMY" : "MDY";
+}
+
+function resolveMonthDay(
+  token: DateToken,
+  order: DateOrder | undefined
+): { month: number; day: number } | DateIssue {
+  if (token.month !== undefined) {
+    return { month: token.month, day: token.parts[0] };
+  }
+
+  const [first, second] = token.parts;
+  if (first > 12) return { month: second, day: first };
+  if (second > 12) return { month: first, day: second };
+  if (first === second) return { month: first, day: second };
+  if (!order) return "ambiguous-order";
+  return order === "DMY"
+    ? { month: second, day: first }
+    : { month: first, day: second };
+}
+
+// Pick the year that places month/day inside the statement period, so a
+// December-to-January statement gets both years right
+function inferYear(
+  month: number,
+  day: number,
+  period: DateRange | undefined
+): number | undefined {
+  if (!period) return undefined;
+
+  const startYear = Number(period.start.slice(0, 4));
+  const endYear = Number(period.end.slice(0, 4));
+  const candidates = Array.from(
+    new Set([startYear - 1, startYear, endYear, endYear + 1])
+  );
+  const start = Date.parse(period.start);
+  const end = Date.parse(period.end);
+
+  let best: number | undefined;
+  let bestDistance = Infinity;
+  for (const year of candidates) {
+    const iso = toISO(year, month, day);
+    if (!iso) continue;
+    const time = Date.parse(iso);
+    const distance = time < start ? start - time : time > end ? time - end : 0;
+    if (distance < bestDistance) {
+      bestDistance = distance;
+      best = year;
+    }
+  }
+  return best;
+}
+
+export function parseDate(
+  raw: string,
+  order?: DateOrder,
+  period?: DateRange
+): DateParseResult {
+  const token = tokenize(raw);
+  if (!token) return { issue: "unparsed" };
+
+  const resolved = resolveMonthDay(token, order);
+  if (typeof resolved === "string") return { issue: resolved };
+
+  const year = token.year ?? inferYear(resolved.month, resolved.day, period);
+  if (year === undefined) return { issue: "missing-year" };
+
+  const date = toISO(year, resolved.month, resolved.day);
+  return date ? { date } : { issue: "unparsed" };
+}
+
+// Find the first and last full dates in a statement period string such as
+// "January 1, 2024 through January 31, 2024" or "01/12/2023 - 31/12/2023"
+export function parseStatementPeriod(
+  period: string,
+  order?: DateOrder
+): DateRange | undefined {
+  const matches = period.match(DATE_ANYWHERE) || [];
+  const dates = matches
+    .map((raw) => parseDate(raw, order ?? inferDateOrder(matches)).date)
+    .filter((date): date is string => !!date);
+
+  if (dates.length < 2) return undefined;
+  return { start: dates[0], end: dates[dates.length - 1] };
+}
+
+// Resolves every date of a statement consistently: the order comes from the
+// statement's own dates, then the bank profile; missing years come from
+// the statement period
+export function createDateResolver(
+  raws: string[],
+  options: { order?: DateOrder; period?: string } = {}
+): { order?: DateOrder; resolve: (raw: string) => DateParseResult } {
+  const order = inferDateOrder(raws) ?? options.order;
+  const range = options.period
+    ? parseStatementPeriod(options.period, order)
+    : undefined;
+
+  return {
+    order,
+    resolve: (raw: string) => parseDate(raw, order, range),
+  };
+}
+
+// Sort rows by date. Rows whose date never resolved stay right after the
+// row they followed on the statement, so the order is the same on every
+// run and running balances still line up.
+export function sortByDate<T extends { date: string; dateIssue?: DateIssue }>(
+  rows: T[]
+): T[] {
+  let previous = -Infinity;
+  const keys = rows.map((row) => {
+    if (!row.dateIssue) previous = Date.parse(row.date);
+    return previous;
+  });
+  return rows
+    .map((row, index) => ({ row, index }))
+    .sort((a, b) => keys[a.index] - keys[b.index] || a.index - b.index)
+    .map(({ row }) => row);
+}
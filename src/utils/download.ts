@@ -0,0 +1,16 @@
+// Save generated content through the browser's download prompt
+export function downloadFile(
+  content: BlobPart,
+  filename: string,
+  type: string
+): void {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Revoking straight away can cancel the download in some browsers
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
@@ -0,0 +1,105 @@
+import { describe, expect, it } from "vitest";
+import { Workbook } from "exceljs";
+import { createWorkbook, ExportOptions } from "./excelExporter";
+import { BankStatementData } from "./pdfParser";
+
+const statement: BankStatementData = {
+  bankName: "Test Bank",
+  bankProfileId: "generic",
+  accountNumber: "12345678",
+  statementPeriod: "January 2024",
+  transactions: [
+    {
+      date: "2024-01-05",
+      description: "Salary",
+      amount: 1000,
+      type: "credit",
+      category: "Income",
+    },
+    {
+      date: "2024-01-07",
+      description: "Grocery store",
+      amount: 50.5,
+      type: "debit",
+      category: "Groceries",
+    },
+    {
+      date: "2024-02-01",
+      description: "Rent",
+      amount: 700,
+      type: "debit",
+      category: "Housing",
+    },
+  ],
+};
+
+const options: ExportOptions = {
+  includeCategories: true,
+  includeBalance: false,
+  dateFormat: "DD/MM/YYYY",
+  currency: "USD",
+  groupByMonth: true,
+  includeSummary: true,
+};
+
+async function roundTrip(): Promise<Workbook> {
+  const workbook = await createWorkbook([statement], options);
+  const reloaded = new Workbook();
+  await reloaded.xlsx.load(await workbook.xlsx.writeBuffer());
+  return reloaded;
+}
+
+describe("createWorkbook", () => {
+  it("writes typed date and amount cells", async () => {
+    const sheet = (await roundTrip()).getWorksheet("Transactions")!;
+
+    const date = sheet.getCell("A2");
+    expect(date.value).toEqual(new Date(Date.UTC(2024, 0, 5)));
+    expect(date.numFmt).toBe("dd/mm/yyyy");
+
+    const amount = sheet.getCell("C3");
+    expect(amount.value).toBe(50.5);
+    expect(amount.numFmt).toContain("#,##0.00");
+  });
+
+  it("defines the transactions as a table with a frozen header", async () => {
+    const sheet = (await roundTrip()).getWorksheet("Transactions")!;
+
+    expect(sheet.getRow(1).values).toEqual([
+      undefined,
+      "Date",
+      "Description",
+      "Amount",
+      "Type",
+      "Category",
+    ]);
+    expect(sheet.views[0]).toMatchObject({ state: "frozen", ySplit: 1 });
+
+    const table = sheet.getTable("Transactions") as unknown as {
+      table: { ref: string; tableRef: string };
+    };
+    expect(table.table.tableRef).toBe("A1:E4");
+  });
+
+  it("adds an autofilter to the monthly breakdown", async () => {
+    const sheet = (await roundTrip()).getWorksheet("Monthly Breakdown")!;
+    expect(sheet.autoFilter).toBe("A3:E5");
+  });
+
+  it("writes totals as SUMIFS formulas with cached results", async () => {
+    const sheet = (await roundTrip()).getWorksheet("Summary")!;
+    const labels = sheet.getColumn(1).values;
+    const cell = (label: string) =>
+      sheet.getCell(`B${labels.indexOf(label)}`).value as {
+        formula: string;
+        result?: number;
+      };
+
+    expect(cell("Total Credits")).toEqual({
+      formula: 'SUMIFS(Transactions!$C$2:$C$4,Transactions!$D$2:$D$4,"Credit")',
+      result: 1000,
+    });
+    expect(cell("Total Debits").result).toBe(750.5);
+    expect(cell("Net Amount").formula).toMatch(/^B\d+-B\d+$/);
+  });
+});
@@ -1,6 +1,15 @@
-import * as XLSX from "xlsx";
+import { Cell as ExcelCell, Workbook, Worksheet } from "exceljs";
 import { BankStatementData, ParsedTransaction } from "./pdfParser";
-import { ai } from "./geminiModel";
+import { isAIEnabled } from "./aiProviders";
+import { combineStatements } from "./statementCollection";
+import { applyRulesToTransactions, getCategoryRules } from "./categoryRules";
+import { accountCode, parentCategory, taxonomyPaths } from "./categoryTaxonomy";
+import { categorizeDescriptions } from "./transactionCategorizer";
+import { TransactionChannel } from "./merchantExtractor";
+import { downloadFile } from "./download";
+import type { CsvOptions } from "./csvExporter";
+import type { OfxOptions } from "./ofxExporter";
+import type { QifOptions } from "./qifExporter";
 
 export interface ExportOptions {
   includeCategories: boolean;
@@ -10,192 +19,379 @@ export interface ExportOptions {
   groupByMonth: boolean;
   includeSummary: boolean;
   useAICategorization?: boolean;
+  // Summary and monthly totals by top-level category instead of by
+  // subcategory
+  rollUpCategories?: boolean;
+  // Excel unless set
+  format?: ExportFormat;
+  // Only used for CSV
+  csv?: CsvOptions;
+  // Only used for OFX and QFX
+  ofx?: OfxOptions;
+  // Only used for QIF
+  qif?: QifOptions;
 }
 
-async function callAI(prompt: string): Promise<string> {
-  try {
-    const response = await ai.models.generateContent({
-      model: "gemini-2.0-flash-001",
-      contents: prompt,
-    });
-    const content = response.text;
-
-    if (!content) {
-      throw new Error("No response from AI API");
-    }
-    return content;
-  } catch (error: any) {
-    console.error(` API error :`, error.message);
-    throw error;
-  }
+// Returned by exporters that can only write transactions with a date
+export interface ExportResult {
+  skippedTransactions: number;
 }
 
-async function categorizeTransactionAI(
-  description: string
-): Promise<{ category: string; confidence: number }> {
-  const prompt = `Categorize this transaction description: "${description}". Return the category (like Food, Travel, Income) and confidence score between 0 and 1 as JSON.`;
-  const response = await callAI(prompt);
-  return JSON.parse(response);
+export type ExportFormat = "xlsx" | "csv" | "ofx" | "qfx" | "qif";
+
+export interface TransactionColumn {
+  header: string;
+  // In characters, for the workbook
+  width: number;
+  // Dates are ISO strings and the rest numbers; exporters format them
+  kind?: "date" | "currency" | "confidence";
+  value: (transaction: ParsedTransaction) => string | number | undefined;
 }
 
-async function refineCategoryName(
-  category: string,
-  description: string
-): Promise<string> {
-  const prompt = `Given the transaction description "${description}" and its initial category "${category}", suggest a more specific or user-friendly category name. Return only the category name.`;
-  return callAI(prompt);
+const CHANNEL_NAMES: Record<TransactionChannel, string> = {
+  pos: "POS",
+  atm: "ATM",
+  ach: "ACH",
+  wire: "Wire",
+  check: "Check",
+  transfer: "Transfer",
+};
+
+// Fields read from the description, each exported as a column when any
+// transaction has it
+const DETAIL_COLUMNS: TransactionColumn[] = [
+  { header: "Merchant", width: 25, value: (t) => t.merchant },
+  { header: "Counterparty", width: 25, value: (t) => t.counterparty },
+  {
+    header: "Channel",
+    width: 10,
+    value: (t) => t.channel && CHANNEL_NAMES[t.channel],
+  },
+  { header: "Reference", width: 18, value: (t) => t.reference },
+  { header: "Card", width: 8, value: (t) => t.cardLast4 },
+  { header: "Location", width: 20, value: (t) => t.location },
+];
+
+// Numbers carry their display format; totals also carry the formula
+// that produces them, with `value` as its cached result
+interface NumberCell {
+  value: number;
+  numFmt?: string;
+  formula?: string;
 }
 
-async function retrainCategoryFromFeedback(
-  description: string,
-  correctCategory: string
-): Promise<string[]> {
-  const prompt = `The user corrected the category of "${description}" to "${correctCategory}". Suggest new keywords or features to improve future classification. Return as an array of strings.`;
-  const response = await callAI(prompt);
-  return JSON.parse(response);
+type Cell = string | number | NumberCell;
+
+// Absolute references to the Transactions sheet's data, so totals on the
+// other sheets are formulas that follow edits made in Excel
+interface TransactionRanges {
+  date: string;
+  amount: string;
+  type: string;
+  category?: string;
 }
 
+const DATE_CELL_FORMATS: Record<ExportOptions["dateFormat"], string> = {
+  "MM/DD/YYYY": "mm/dd/yyyy",
+  "DD/MM/YYYY": "dd/mm/yyyy",
+  "YYYY-MM-DD": "yyyy-mm-dd",
+};
+
+const CURRENCY_SYMBOLS: Record<string, string> = {
+  USD: "$",
+  EUR: "€",
+  GBP: "£",
+  CAD: "C$",
+  AUD: "A$",
+  JPY: "¥",
+};
+
+const CONFIDENCE_FORMAT = "0.00";
+
+// Category confidence below this highlights the transaction's row
+const LOW_CONFIDENCE = 0.6;
+
+const HEADER_STYLE: Partial<ExcelCell["style"]> = {
+  font: { bold: true },
+  fill: { type: "pattern", pattern: "solid", fgColor: { argb: "FFE3F2FD" } },
+  border: {
+    top: { style: "thin" },
+    bottom: { style: "thin" },
+    left: { style: "thin" },
+    right: { style: "thin" },
+  },
+};
+
+const CREDIT_FONT = { color: { argb: "FF2E7D32" } };
+const DEBIT_FONT = { color: { argb: "FFC62828" } };
+const FAILED_VALIDATION_FILL = {
+  type: "pattern" as const,
+  pattern: "solid" as const,
+  bgColor: { argb: "FFFDECEA" },
+};
+const LOW_CONFIDENCE_FILL = {
+  type: "pattern" as const,
+  pattern: "solid" as const,
+  bgColor: { argb: "FFFFF8E1" },
+};
+
+const XLSX_TYPE =
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet";
+
+// Export one statement, or several as a single workbook whose transactions
+// are tagged with the file they came from
 export async function exportToExcel(
-  data: BankStatementData,
+  statements: BankStatementData | BankStatementData[],
   options: ExportOptions
 ): Promise<void> {
-  const workbook = XLSX.utils.book_new();
+  const list = Array.isArray(statements) ? statements : [statements];
+  if (list.length === 0) return;
 
-  let transactions = data.transactions;
-  if (options.useAICategorization) {
-    transactions = await Promise.all(
-      data.transactions.map(async (t) => {
-        try {
-          const { category, confidence } = await categorizeTransactionAI(
-            t.description
-          );
-          const refinedCategory = await refineCategoryName(
-            category,
-            t.description
-          );
-          return { ...t, category: refinedCategory, confidence };
-        } catch (error) {
-          console.warn(
-            `AI categorization failed for "${t.description}", using original`,
-            error
-          );
-          return t;
-        }
-      })
-    );
-  }
+  const workbook = await createWorkbook(list, options);
+  downloadFile(
+    await workbook.xlsx.writeBuffer(),
+    exportFilename(combineStatements(list), "xlsx"),
+    XLSX_TYPE
+  );
+}
+
+export function exportFilename(
+  data: BankStatementData,
+  extension: string
+): string {
+  return `bank_statement_${data.bankName.replace(/\s+/g, "_")}_${
+    new Date().toISOString().split("T")[0]
+  }.${extension}`;
+}
 
-  const transactionsSheet = createTransactionsSheet(transactions, options);
-  XLSX.utils.book_append_sheet(workbook, transactionsSheet, "Transactions");
+// The statements combined into one, recategorized by AI when the options
+// ask for it. Every export format starts from this.
+export async function prepareExport(
+  list: BankStatementData[],
+  options: ExportOptions
+): Promise<BankStatementData> {
+  const data = combineStatements(list);
+  if (!options.useAICategorization || !isAIEnabled()) return data;
+
+  // Served from the category cache for anything seen while parsing
+  const categories = await categorizeDescriptions(
+    data.transactions.map((t) => t.description)
+  );
+  // The user's rules still override what AI says
+  const transactions = applyRulesToTransactions(
+    await getCategoryRules(),
+    data.transactions.map((t, index) => ({
+      ...t,
+      category: categories[index].category,
+      confidence: categories[index].confidence,
+      categoryFailure: categories[index].failureReason,
+      categoryBeforeRules: undefined,
+    }))
+  );
+  return { ...data, transactions };
+}
+
+export async function createWorkbook(
+  list: BankStatementData[],
+  options: ExportOptions
+): Promise<Workbook> {
+  const data = await prepareExport(list, options);
+  const { transactions } = data;
+  const workbook = new Workbook();
+
+  const ranges = createTransactionsSheet(workbook, transactions, options);
 
   if (options.includeSummary) {
-    const summarySheet = await createSummarySheet(
-      { ...data, transactions },
-      options
-    );
-    XLSX.utils.book_append_sheet(workbook, summarySheet, "Summary");
+    await createSummarySheet(workbook, data, options, ranges);
   }
 
   if (options.groupByMonth) {
-    const monthlySheet = createMonthlySheet(transactions, options);
-    XLSX.utils.book_append_sheet(workbook, monthlySheet, "Monthly Breakdown");
+    createMonthlySheet(workbook, transactions, options, ranges);
   }
 
-  const filename = `bank_statement_${data.bankName.replace(/\s+/g, "_")}_${
-    new Date().toISOString().split("T")[0]
-  }.xlsx`;
-  XLSX.writeFile(workbook, filename);
+  if (list.length > 1) {
+    createStatementsSheet(workbook, list, options);
+  }
+
+  return workbook;
 }
 
-function createTransactionsSheet(
+// The Transactions sheet's columns, shared with the flat file exporters.
+// Optional columns are only present when some transaction fills them.
+export function transactionColumns(
   transactions: ParsedTransaction[],
   options: ExportOptions
-): XLSX.WorkSheet {
-  const headers = ["Date", "Description", "Amount", "Type"];
+): TransactionColumn[] {
+  const columns: TransactionColumn[] = [
+    { header: "Date", width: 12, kind: "date", value: (t) => t.date },
+    { header: "Description", width: 40, value: (t) => t.description },
+    { header: "Amount", width: 15, kind: "currency", value: (t) => t.amount },
+    {
+      header: "Type",
+      width: 10,
+      value: (t) => (t.type === "credit" ? "Credit" : "Debit"),
+    },
+  ];
 
   if (options.includeBalance) {
-    headers.push("Balance");
+    columns.push({
+      header: "Balance",
+      width: 15,
+      kind: "currency",
+      value: (t) => t.balance,
+    });
   }
 
+  columns.push(
+    ...DETAIL_COLUMNS.filter((column) =>
+      transactions.some((t) => column.value(t))
+    )
+  );
+
   if (options.includeCategories) {
-    headers.push("Category");
+    columns.push({
+      header: "Category",
+      width: 20,
+      value: (t) => t.category || "Uncategorized",
+    });
     if (options.useAICategorization) {
-      headers.push("Confidence");
+      columns.push({
+        header: "Confidence",
+        width: 10,
+        kind: "confidence",
+        value: (t) => t.confidence,
+      });
+    }
+    if (transactions.some((t) => t.tags?.length)) {
+      columns.push({
+        header: "Tags",
+        width: 20,
+        value: (t) => (t.tags || []).join(", "),
+      });
     }
   }
 
-  const data = [headers];
+  const includeValidation = transactions.some(
+    (t) => t.validation || t.categoryFailure || t.crossCheck
+  );
+  if (includeValidation) {
+    columns.push({
+      header: "Validation",
+      width: 30,
+      value: (t) => formatValidation(t, options.currency),
+    });
+  }
 
-  transactions.forEach((transaction) => {
-    const row: any[] = [
-      formatDate(transaction.date, options.dateFormat),
-      transaction.description,
-      formatCurrency(transaction.amount, options.currency),
-      transaction.type === "credit" ? "Credit" : "Debit",
-    ];
+  const includeSource =
+    new Set(transactions.map((t) => t.sourceFile).filter(Boolean)).size > 1;
+  if (includeSource) {
+    columns.push({
+      header: "Statement",
+      width: 30,
+      value: (t) => t.sourceFile,
+    });
+  }
 
-    if (options.includeBalance && transaction.balance !== undefined) {
-      row.push(formatCurrency(transaction.balance, options.currency));
-    } else if (options.includeBalance) {
-      row.push("");
-    }
+  return columns;
+}
 
-    if (options.includeCategories) {
-      row.push(transaction.category || "Uncategorized");
-      if (options.useAICategorization && transaction.confidence !== undefined) {
-        row.push(transaction.confidence.toFixed(2));
+// Returns references to the data for the other sheets' formulas, when
+// there are transactions
+function createTransactionsSheet(
+  workbook: Workbook,
+  transactions: ParsedTransaction[],
+  options: ExportOptions
+): TransactionRanges | undefined {
+  const columns = transactionColumns(transactions, options);
+  const headers = columns.map((column) => column.header);
+  const data = transactions.map((transaction) =>
+    columns.map((column) => {
+      const value = column.value(transaction);
+      if (value === undefined) return "";
+      switch (column.kind) {
+        case "date":
+          return dateCell(String(value), options.dateFormat);
+        case "currency":
+          return currencyCell(Number(value), options.currency);
+        case "confidence":
+          return { value: Number(value), numFmt: CONFIDENCE_FORMAT };
+        default:
+          return value;
       }
-    }
-
-    data.push(row);
-  });
+    })
+  );
 
-  const worksheet = XLSX.utils.aoa_to_sheet(data);
+  const worksheet = addTableSheet(
+    workbook,
+    "Transactions",
+    headers,
+    data,
+    columns.map((column) => column.width)
+  );
+  if (transactions.length === 0) return undefined;
 
-  const colWidths = [
-    { wch: 12 }, // Date
-    { wch: 40 }, // Description
-    { wch: 15 }, // Amount
-    { wch: 10 }, // Type
-  ];
+  const lastRow = transactions.length + 1;
+  const column = (index: number) => {
+    const letter = columnLetter(index);
+    return `Transactions!$${letter}$2:$${letter}$${lastRow}`;
+  };
 
-  if (options.includeBalance) {
-    colWidths.push({ wch: 15 });
+  // Flagged rows first, so their fill wins over the low-confidence one
+  const lastColumn = columnLetter(headers.length - 1);
+  if (headers.includes("Validation")) {
+    const validation = columnLetter(headers.indexOf("Validation"));
+    highlightRows(
+      worksheet,
+      `A2:${lastColumn}${lastRow}`,
+      `$${validation}2<>"OK"`,
+      FAILED_VALIDATION_FILL,
+      1
+    );
   }
-
-  if (options.includeCategories) {
-    colWidths.push({ wch: 20 });
-    if (options.useAICategorization) {
-      colWidths.push({ wch: 10 });
-    }
+  if (headers.includes("Confidence")) {
+    const confidence = columnLetter(headers.indexOf("Confidence"));
+    highlightRows(
+      worksheet,
+      `A2:${lastColumn}${lastRow}`,
+      `AND(ISNUMBER($${confidence}2),$${confidence}2<${LOW_CONFIDENCE})`,
+      LOW_CONFIDENCE_FILL,
+      2
+    );
   }
-
-  worksheet["!cols"] = colWidths;
-
-  const headerRange = XLSX.utils.decode_range(worksheet["!ref"] || "A1");
-  for (let col = headerRange.s.c; col <= headerRange.e.c; col++) {
-    const cellAddress = XLSX.utils.encode_cell({ r: 0, c: col });
-    if (!worksheet[cellAddress]) continue;
-
-    worksheet[cellAddress].s = {
-      font: { bold: true },
-      fill: { fgColor: { rgb: "E3F2FD" } },
-      border: {
-        top: { style: "thin" },
-        bottom: { style: "thin" },
-        left: { style: "thin" },
-        right: { style: "thin" },
+  worksheet.addConditionalFormatting({
+    ref: `C2:C${lastRow}`,
+    rules: [
+      {
+        type: "expression",
+        priority: 3,
+        formulae: ['$D2="Credit"'],
+        style: { font: CREDIT_FONT },
       },
-    };
-  }
+      {
+        type: "expression",
+        priority: 4,
+        formulae: ['$D2="Debit"'],
+        style: { font: DEBIT_FONT },
+      },
+    ],
+  });
 
-  return worksheet;
+  return {
+    date: column(0),
+    amount: column(2),
+    type: column(3),
+    category: options.includeCategories
+      ? column(headers.indexOf("Category"))
+      : undefined,
+  };
 }
 
 async function createSummarySheet(
+  workbook: Workbook,
   data: BankStatementData,
-  options: ExportOptions
-): Promise<XLSX.WorkSheet> {
+  options: ExportOptions,
+  ranges?: TransactionRanges
+): Promise<void> {
   const totalCredits = data.transactions
     .filter((t) => t.type === "credit")
     .reduce((sum, t) => sum + t.amount, 0);
@@ -205,7 +401,7 @@ async function createSummarySheet(
     .reduce((sum, t) => sum + t.amount, 0);
 
   const categoryTotals = data.transactions.reduce((acc, transaction) => {
-    const category = transaction.category || "Uncategorized";
+    const category = categoryGroup(transaction, options);
     if (!acc[category]) {
       acc[category] = { credits: 0, debits: 0, count: 0, confidenceSum: 0 };
     }
@@ -223,7 +419,13 @@ async function createSummarySheet(
     return acc;
   }, {} as Record<string, { credits: number; debits: number; count: number; confidenceSum: number }>);
 
-  const summaryData = [
+  const includeCodes = Object.keys(categoryTotals).some((category) =>
+    accountCode(category)
+  );
+  const members = categoryMembers(data.transactions, options);
+  const all = allRows(ranges);
+
+  const summaryData: Cell[][] = [
     ["Bank Statement Summary"],
     [""],
     ["Bank Name", data.bankName],
@@ -231,69 +433,120 @@ async function createSummarySheet(
     ["Statement Period", data.statementPeriod],
     [""],
     ["Transaction Summary"],
-    ["Total Transactions", data.transactions.length],
-    ["Total Credits", formatCurrency(totalCredits, options.currency)],
-    ["Total Debits", formatCurrency(totalDebits, options.currency)],
+    [
+      "Total Transactions",
+      countCell(data.transactions.length, all && countIfs(all)),
+    ],
+  ];
+  const creditsRow = summaryData.length + 1;
+  summaryData.push(
+    [
+      "Total Credits",
+      currencyCell(
+        totalCredits,
+        options.currency,
+        all && sumIfs(all, "Credit")
+      ),
+    ],
+    [
+      "Total Debits",
+      currencyCell(totalDebits, options.currency, all && sumIfs(all, "Debit")),
+    ],
     [
       "Net Amount",
-      formatCurrency(totalCredits - totalDebits, options.currency),
+      currencyCell(
+        totalCredits - totalDebits,
+        options.currency,
+        all && `B${creditsRow}-B${creditsRow + 1}`
+      ),
     ],
     [""],
-    ["Category Breakdown"],
+    ...validationSummaryRows(data, options.currency),
+    ...crossCheckSummaryRows(data),
     [
-      "Category",
-      "Credits",
-      "Debits",
-      "Net",
-      "Count",
-      ...(options.useAICategorization ? ["Avg Confidence"] : []),
-    ],
-  ];
+      options.rollUpCategories
+        ? "Category Breakdown (by parent)"
+        : "Category Breakdown",
+    ]
+  );
+  const breakdownRow = summaryData.length + 1;
+  summaryData.push([
+    "Category",
+    "Credits",
+    "Debits",
+    "Net",
+    "Count",
+    ...(options.useAICategorization ? ["Avg Confidence"] : []),
+    ...(includeCodes ? ["Account Code"] : []),
+  ]);
 
-  Object.entries(categoryTotals).forEach(([category, totals]) => {
-    const row = [
+  sortCategories(Object.keys(categoryTotals)).forEach((category) => {
+    const totals = categoryTotals[category];
+    const row = summaryData.length + 1;
+    const match = inCategories(all, members.get(category) || [category]);
+    const cells: Cell[] = [
       category,
-      formatCurrency(totals.credits, options.currency),
-      formatCurrency(totals.debits, options.currency),
-      formatCurrency(totals.credits - totals.debits, options.currency),
-      totals.count.toString(),
+      currencyCell(
+        totals.credits,
+        options.currency,
+        match && sumIfs(match, "Credit")
+      ),
+      currencyCell(
+        totals.debits,
+        options.currency,
+        match && sumIfs(match, "Debit")
+      ),
+      currencyCell(
+        totals.credits - totals.debits,
+        options.currency,
+        match && `B${row}-C${row}`
+      ),
+      countCell(totals.count, match && countIfs(match)),
     ];
     if (options.useAICategorization) {
-      row.push((totals.confidenceSum / totals.count).toFixed(2));
+      cells.push({
+        value: totals.confidenceSum / totals.count,
+        numFmt: CONFIDENCE_FORMAT,
+      });
+    }
+    if (includeCodes) {
+      cells.push(accountCode(category) || "");
     }
-    summaryData.push(row);
+    summaryData.push(cells);
   });
 
-  const worksheet = XLSX.utils.aoa_to_sheet(summaryData);
-
-  const colWidths = [
-    { wch: 25 },
-    { wch: 15 },
-    { wch: 15 },
-    { wch: 15 },
-    { wch: 10 },
-  ];
+  const colWidths = [25, 15, 15, 15, 10];
   if (options.useAICategorization) {
-    colWidths.push({ wch: 15 });
+    colWidths.push(15);
+  }
+  if (includeCodes) {
+    colWidths.push(15);
   }
 
-  worksheet["!cols"] = colWidths;
-
-  return worksheet;
+  const worksheet = addSheet(workbook, "Summary", summaryData, colWidths);
+  [1, 7, breakdownRow - 1].forEach((row) => {
+    worksheet.getRow(row).font = { bold: true };
+  });
+  styleHeader(worksheet, breakdownRow, colWidths.length);
+  worksheet.autoFilter = {
+    from: { row: breakdownRow, column: 1 },
+    to: { row: summaryData.length, column: colWidths.length },
+  };
+  colorNet(worksheet, `B${creditsRow + 2}`, 1);
+  colorNet(worksheet, `D${breakdownRow + 1}:D${summaryData.length}`, 3);
 }
 
 function createMonthlySheet(
+  workbook: Workbook,
   transactions: ParsedTransaction[],
-  options: ExportOptions
-): XLSX.WorkSheet {
+  options: ExportOptions,
+  ranges?: TransactionRanges
+): void {
   const monthlyData = transactions.reduce((acc, transaction) => {
-    const date = new Date(transaction.date);
-    const monthKey = `${date.getFullYear()}-${String(
-      date.getMonth() + 1
-    ).padStart(2, "0")}`;
+    const key = monthKey(transaction.date);
 
-    if (!acc[monthKey]) {
-      acc[monthKey] = {
+    if (!acc[key]) {
+      acc[key] = {
         credits: 0,
         debits: 0,
         count: 0,
@@ -303,20 +556,20 @@ function createMonthlySheet(
     }
 
     if (transaction.type === "credit") {
-      acc[monthKey].credits += transaction.amount;
+      acc[key].credits += transaction.amount;
     } else {
-      acc[monthKey].debits += transaction.amount;
+      acc[key].debits += transaction.amount;
     }
-    acc[monthKey].count++;
+    acc[key].count++;
     if (options.useAICategorization && transaction.confidence !== undefined) {
-      acc[monthKey].confidenceSum += transaction.confidence;
+      acc[key].confidenceSum += transaction.confidence;
     }
-    acc[monthKey].transactions.push(transaction);
+    acc[key].transactions.push(transaction);
 
     return acc;
   }, {} as Record<string, { credits: number; debits: number; count: number; confidenceSum: number; transactions: ParsedTransaction[] }>);
 
-  const data = [
+  const data: Cell[][] = [
     ["Monthly Breakdown"],
     [""],
     [
@@ -332,83 +585,591 @@ function createMonthlySheet(
   Object.entries(monthlyData)
     .sort(([a], [b]) => a.localeCompare(b))
     .forEach(([month, totals]) => {
-      const monthName = new Date(month + "-01").toLocaleDateString("en-US", {
-        year: "numeric",
-        month: "long",
-      });
+      const monthName = monthLabel(month, "long");
+      const row = data.length + 1;
+      const match = inMonth(allRows(ranges), month);
 
-      const row = [
+      const cells: Cell[] = [
         monthName,
-        formatCurrency(totals.credits, options.currency),
-        formatCurrency(totals.debits, options.currency),
-        formatCurrency(totals.credits - totals.debits, options.currency),
-        totals.count.toString(),
+        currencyCell(
+          totals.credits,
+          options.currency,
+          match && sumIfs(match, "Credit")
+        ),
+        currencyCell(
+          totals.debits,
+          options.currency,
+          match && sumIfs(match, "Debit")
+        ),
+        currencyCell(
+          totals.credits - totals.debits,
+          options.currency,
+          match && `B${row}-C${row}`
+        ),
+        countCell(totals.count, match && countIfs(match)),
       ];
       if (options.useAICategorization) {
-        row.push((totals.confidenceSum / totals.count).toFixed(2));
+        cells.push({
+          value: totals.confidenceSum / totals.count,
+          numFmt: CONFIDENCE_FORMAT,
+        });
       }
-      data.push(row);
+      data.push(cells);
     });
 
-  const worksheet = XLSX.utils.aoa_to_sheet(data);
+  const lastMonthRow = data.length;
+  const categoryRows = options.includeCategories
+    ? monthlyCategoryRows(monthlyData, transactions, options, ranges)
+    : [];
+  if (categoryRows.length > 0) {
+    data.push([""], ...categoryRows);
+  }
 
-  worksheet["!cols"] = [
-    { wch: 20 },
-    { wch: 15 },
-    { wch: 15 },
-    { wch: 15 },
-    { wch: 15 },
-  ];
+  const colWidths = [20, 15, 15, 15, 15];
   if (options.useAICategorization) {
-    worksheet["!cols"].push({ wch: 15 });
+    colWidths.push(15);
+  }
+
+  const worksheet = addSheet(workbook, "Monthly Breakdown", data, colWidths);
+  worksheet.getRow(1).font = { bold: true };
+  styleHeader(worksheet, 3, colWidths.length);
+  worksheet.views = [{ state: "frozen", ySplit: 3 }];
+  worksheet.autoFilter = {
+    from: { row: 3, column: 1 },
+    to: { row: lastMonthRow, column: colWidths.length },
+  };
+  colorNet(worksheet, `D4:D${lastMonthRow}`, 1);
+
+  if (categoryRows.length > 0) {
+    // Title and header rows come first in the category block
+    const headerRow = lastMonthRow + 3;
+    const months = categoryRows[1].length - 1;
+    worksheet.getRow(headerRow - 1).font = { bold: true };
+    styleHeader(worksheet, headerRow, months + 1);
+    colorNet(
+      worksheet,
+      `B${headerRow + 1}:${columnLetter(months)}${data.length}`,
+      3
+    );
   }
+}
 
+// Net amount per category and month, one row per category
+function monthlyCategoryRows(
+  monthlyData: Record<string, { transactions: ParsedTransaction[] }>,
+  transactions: ParsedTransaction[],
+  options: ExportOptions,
+  ranges?: TransactionRanges
+): Cell[][] {
+  const months = Object.keys(monthlyData).sort();
+  const members = categoryMembers(transactions, options);
+  const net = new Map<string, Record<string, number>>();
+  months.forEach((month) => {
+    monthlyData[month].transactions.forEach((transaction) => {
+      const category = categoryGroup(transaction, options);
+      const totals = net.get(category) || {};
+      totals[month] =
+        (totals[month] || 0) +
+        (transaction.type === "credit" ? 1 : -1) * transaction.amount;
+      net.set(category, totals);
+    });
+  });
+
+  return [
+    [options.rollUpCategories ? "Net by Parent Category" : "Net by Category"],
+    ["Category", ...months.map((month) => monthLabel(month, "short"))],
+    ...sortCategories([...net.keys()]).map((category) => [
+      category,
+      ...months.map((month) => {
+        const match = inMonth(
+          inCategories(allRows(ranges), members.get(category) || [category]),
+          month
+        );
+        return currencyCell(
+          net.get(category)?.[month] || 0,
+          options.currency,
+          match && `${sumIfs(match, "Credit")}-${sumIfs(match, "Debit")}`
+        );
+      }),
+    ]),
+  ];
+}
+
+// Transactions by month, keyed YYYY-MM; dates that never resolved are
+// grouped together
+function monthKey(date: string): string {
+  const match = date.match(/^(\d{4})-(\d{2})-\d{2}$/);
+  return match ? `${match[1]}-${match[2]}` : "Unknown";
+}
+
+function monthLabel(month: string, style: "long" | "short"): string {
+  if (month === "Unknown") return "Unknown date";
+  return new Date(`${month}-01`).toLocaleDateString("en-US", {
+    year: "numeric",
+    month: style,
+    timeZone: "UTC",
+  });
+}
+
+// The categories in the data that make up each exported group: just the
+// category itself, or every subcategory when rolled up to parents
+function categoryMembers(
+  transactions: ParsedTransaction[],
+  options: ExportOptions
+): Map<string, string[]> {
+  const members = new Map<string, Set<string>>();
+  transactions.forEach((transaction) => {
+    const group = categoryGroup(transaction, options);
+    const set = members.get(group) || new Set<string>();
+    set.add(transaction.category || "Uncategorized");
+    members.set(group, set);
+  });
+  return new Map([...members].map(([group, set]) => [group, [...set]]));
+}
+
+function categoryGroup(
+  transaction: ParsedTransaction,
+  options: ExportOptions
+): string {
+  const category = transaction.category || "Uncategorized";
+  return options.rollUpCategories ? parentCategory(category) : category;
+}
+
+// Taxonomy order, then anything outside the taxonomy alphabetically
+function sortCategories(categories: string[]): string[] {
+  const order = new Map(
+    taxonomyPaths().map(({ name }, index) => [name, index])
+  );
+  return [...categories].sort(
+    (a, b) =>
+      (order.get(a) ?? Infinity) - (order.get(b) ?? Infinity) ||
+      a.localeCompare(b)
+  );
+}
+
+function createStatementsSheet(
+  workbook: Workbook,
+  statements: BankStatementData[],
+  options: ExportOptions
+): void {
+  const status = {
+    reconciled: "Reconciled",
+    partial: "Totals not checked",
+    mismatch: "Does not reconcile",
+    unverifiable: "Could not be verified",
+  };
+
+  const headers = [
+    "File",
+    "Bank",
+    "Account Number",
+    "Statement Period",
+    "Transactions",
+    "Opening Balance",
+    "Closing Balance",
+    "Validation",
+  ];
+  const data: Cell[][] = statements.map((statement) => [
+    statement.sourceFile || "",
+    statement.bankName,
+    statement.accountNumber,
+    statement.statementPeriod,
+    statement.transactions.length,
+    statement.openingBalance !== undefined
+      ? currencyCell(statement.openingBalance, options.currency)
+      : "",
+    statement.closingBalance !== undefined
+      ? currencyCell(statement.closingBalance, options.currency)
+      : "",
+    statement.validation ? status[statement.validation.status] : "",
+  ]);
+
+  const worksheet = addTableSheet(
+    workbook,
+    "Statements",
+    headers,
+    data,
+    [30, 20, 20, 30, 12, 15, 15, 22]
+  );
+  highlightRows(
+    worksheet,
+    `A2:H${data.length + 1}`,
+    `$H2="${status.mismatch}"`,
+    FAILED_VALIDATION_FILL,
+    1
+  );
+}
+
+// A sheet of plain rows, with numbers in their display formats
+function addSheet(
+  workbook: Workbook,
+  name: string,
+  rows: Cell[][],
+  widths: number[]
+): Worksheet {
+  const worksheet = workbook.addWorksheet(name);
+  worksheet.columns = widths.map((width) => ({ width }));
+  rows.forEach((cells, index) => writeRow(worksheet, index + 1, cells));
+  return worksheet;
+}
+
+// A sheet holding a single Excel table with filter buttons, its header
+// frozen in place. Excel rejects empty tables, so those get a plain
+// header row instead.
+function addTableSheet(
+  workbook: Workbook,
+  name: string,
+  headers: string[],
+  rows: Cell[][],
+  widths: number[]
+): Worksheet {
+  if (rows.length === 0) {
+    const worksheet = addSheet(workbook, name, [headers], widths);
+    styleHeader(worksheet, 1, headers.length);
+    worksheet.views = [{ state: "frozen", ySplit: 1 }];
+    return worksheet;
+  }
+
+  const worksheet = workbook.addWorksheet(name, {
+    views: [{ state: "frozen", ySplit: 1 }],
+  });
+  worksheet.columns = widths.map((width) => ({ width }));
+  worksheet.addTable({
+    name,
+    ref: "A1",
+    headerRow: true,
+    style: { theme: "TableStyleLight1", showRowStripes: true },
+    columns: headers.map((header) => ({ name: header, filterButton: true })),
+    rows: rows.map((cells) =>
+      cells.map((cell) => (typeof cell === "object" ? cell.value : cell))
+    ),
+  });
+  // The table writes plain values; formats are applied over them
+  rows.forEach((cells, index) => writeRow(worksheet, index + 2, cells));
+  styleHeader(worksheet, 1, headers.length);
   return worksheet;
 }
 
-function formatDate(
-  dateStr: string,
+function writeRow(worksheet: Worksheet, rowNumber: number, cells: Cell[]) {
+  const row = worksheet.getRow(rowNumber);
+  cells.forEach((cell, index) => {
+    if (cell === "") return;
+    const target = row.getCell(index + 1);
+    if (typeof cell !== "object") {
+      target.value = cell;
+      return;
+    }
+    target.value = cell.formula
+      ? { formula: cell.formula, result: cell.value }
+      : cell.value;
+    if (cell.numFmt) target.numFmt = cell.numFmt;
+  });
+}
+
+function styleHeader(worksheet: Worksheet, rowNumber: number, columns: number) {
+  const row = worksheet.getRow(rowNumber);
+  for (let column = 1; column <= columns; column++) {
+    row.getCell(column).style = { ...HEADER_STYLE };
+  }
+}
+
+// Fill whole rows of `ref` where `formula`, written for its first row,
+// holds. Rules with a lower priority number win where they overlap.
+function highlightRows(
+  worksheet: Worksheet,
+  ref: string,
+  formula: string,
+  fill: typeof FAILED_VALIDATION_FILL,
+  priority: number
+) {
+  worksheet.addConditionalFormatting({
+    ref,
+    rules: [
+      {
+        type: "expression",
+        priority,
+        formulae: [formula],
+        style: { fill },
+      },
+    ],
+  });
+}
+
+// Net amounts in green when positive and red when negative; takes two
+// priorities from `priority` up
+function colorNet(worksheet: Worksheet, ref: string, priority: number) {
+  worksheet.addConditionalFormatting({
+    ref,
+    rules: [
+      {
+        type: "cellIs",
+        operator: "greaterThan",
+        priority,
+        formulae: [0],
+        style: { font: CREDIT_FONT },
+      },
+      {
+        type: "cellIs",
+        operator: "lessThan",
+        priority: priority + 1,
+        formulae: [0],
+        style: { font: DEBIT_FONT },
+      },
+    ],
+  });
+}
+
+// Zero-based column index to its letters, 0 -> A, 26 -> AA
+function columnLetter(index: number): string {
+  let letters = "";
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    letters = String.fromCharCode(65 + ((n - 1) % 26)) + letters;
+  }
+  return letters;
+}
+
+// Real dates, shown in the chosen format; dates that never resolved stay
+// as printed on the statement
+function dateCell(date: string, format: ExportOptions["dateFormat"]): Cell {
+  const match = date.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!match) return date;
+
+  const [, year, month, day] = match.map(Number);
+  // Days since 1899-12-30, Excel's date serial
+  const serial = Date.UTC(year, month - 1, day) / 86400000 + 25569;
+  return { value: serial, numFmt: DATE_CELL_FORMATS[format] };
+}
+
+// Dates as text in the chosen format, for the flat file exporters
+export function formatDate(
+  date: string,
   format: ExportOptions["dateFormat"]
 ): string {
-  const date = new Date(dateStr);
+  const match = date.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!match) return date;
 
+  const [, year, month, day] = match;
   switch (format) {
     case "MM/DD/YYYY":
-      return date.toLocaleDateString("en-US");
+      return `${month}/${day}/${year}`;
     case "DD/MM/YYYY":
-      return date.toLocaleDateString("en-GB");
-    case "YYYY-MM-DD":
-      return date.toISOString().split("T")[0];
+      return `${day}/${month}/${year}`;
     default:
-      return date.toLocaleDateString();
+      return date;
   }
 }
 
-function formatCurrency(amount: number, currency: string): string {
-  const symbols: Record<string, string> = {
-    USD: "$",
-    EUR: "€",
-    GBP: "£",
-    CAD: "C$",
-    AUD: "A$",
-    JPY: "¥",
+function currencyFormat(currency: string): string {
+  const symbol = `"${CURRENCY_SYMBOLS[currency] || "$"}"`;
+  return `${symbol}#,##0.00;-${symbol}#,##0.00`;
+}
+
+// `value` is what the formula evaluates to, kept for readers that do not
+// recalculate
+function currencyCell(
+  value: number,
+  currency: string,
+  formula?: string
+): NumberCell {
+  return { value, numFmt: currencyFormat(currency), formula };
+}
+
+function countCell(value: number, formula?: string): NumberCell {
+  return { value, formula };
+}
+
+// SUMIFS criteria match text case-insensitively and treat * ? ~ as
+// wildcards; the leading = keeps them literal
+function textCriterion(value: string): string {
+  return `"=${value.replace(/[~*?]/g, "~$&").replace(/"/g, '""')}"`;
+}
+
+// The transactions a total covers, as SUMIFS criteria
+interface RowMatch {
+  ranges: TransactionRanges;
+  criteria: string[];
+}
+
+function allRows(ranges?: TransactionRanges): RowMatch | undefined {
+  return ranges && { ranges, criteria: [] };
+}
+
+// A rolled-up group matches any of its categories through an array
+// constant, which the formula then sums. Without a Category column there
+// is nothing to match.
+function inCategories(
+  match: RowMatch | undefined,
+  categories: string[]
+): RowMatch | undefined {
+  const range = match?.ranges.category;
+  if (!match || !range) return undefined;
+
+  const values = categories.map(textCriterion);
+  const criterion = `${range},${
+    values.length === 1 ? values[0] : `{${values.join(",")}}`
+  }`;
+  return { ...match, criteria: [...match.criteria, criterion] };
+}
+
+function inMonth(
+  match: RowMatch | undefined,
+  month: string
+): RowMatch | undefined {
+  const parts = month.match(/^(\d{4})-(\d{2})$/);
+  if (!match || !parts) return undefined;
+
+  const [year, index] = [Number(parts[1]), Number(parts[2])];
+  const { date } = match.ranges;
+  return {
+    ...match,
+    criteria: [
+      ...match.criteria,
+      `${date},">="&DATE(${year},${index},1)`,
+      `${date},"<"&DATE(${year},${index + 1},1)`,
+    ],
   };
+}
+
+function withArrayCriteria(formula: string, match: RowMatch): string {
+  return match.criteria.some((criterion) => criterion.endsWith("}"))
+    ? `SUM(${formula})`
+    : formula;
+}
+
+function sumIfs(match: RowMatch, type: "Credit" | "Debit"): string {
+  const { amount, type: types } = match.ranges;
+  return withArrayCriteria(
+    `SUMIFS(${[amount, types, `"${type}"`, ...match.criteria].join(",")})`,
+    match
+  );
+}
+
+function countIfs(match: RowMatch): string {
+  if (match.criteria.length === 0) return `COUNT(${match.ranges.amount})`;
+  return withArrayCriteria(`COUNTIFS(${match.criteria.join(",")})`, match);
+}
+
+function formatValidation(
+  transaction: ParsedTransaction,
+  currency: string
+): string {
+  const flags = transaction.validation?.flags || [];
+  const notes = [
+    transaction.categoryFailure &&
+      `AI categorization failed: ${transaction.categoryFailure}`,
+    formatCrossCheck(transaction, currency),
+  ].filter((note): note is string => !!note);
+  if (flags.length === 0 && notes.length === 0) return "OK";
+
+  return flags
+    .map((flag) => {
+      switch (flag) {
+        case "balance-mismatch":
+          return transaction.validation?.expectedBalance !== undefined
+            ? `Balance mismatch (expected ${formatCurrency(
+                transaction.validation.expectedBalance,
+                currency
+              )})`
+            : "Balance mismatch";
+        case "type-corrected":
+          return "Type corrected from balance";
+        case "date-unresolved":
+          return "Date unresolved";
+      }
+    })
+    .concat(notes)
+    .join("; ");
+}
+
+function formatCrossCheck(
+  transaction: ParsedTransaction,
+  currency: string
+): string | undefined {
+  const check = transaction.crossCheck;
+  switch (check?.status) {
+    case "amount-mismatch":
+      return `AI read amount ${formatCurrency(
+        Math.abs(check.aiAmount ?? 0),
+        currency
+      )}`;
+    case "date-mismatch":
+      return `AI read date ${check.aiDate}`;
+    case "missing-from-ai":
+      return "Not found by AI extraction";
+    default:
+      return undefined;
+  }
+}
+
+function validationSummaryRows(
+  data: BankStatementData,
+  currency: string
+): Cell[][] {
+  const report = data.validation;
+  if (!report) return [];
+
+  const status = {
+    reconciled: "Reconciled",
+    partial: "Totals not checked",
+    mismatch: "Does not reconcile",
+    unverifiable: "Could not be verified",
+  }[report.status];
+
+  const rows: Cell[][] = [
+    ["Validation"],
+    ["Status", status],
+    ["Running Balances Checked", report.checkedRows],
+    ["Mismatched Rows", report.mismatchedRows],
+    ["Types Corrected", report.correctedTypes],
+  ];
+  if (report.expectedClosingBalance !== undefined) {
+    rows.push([
+      "Expected Closing Balance",
+      currencyCell(report.expectedClosingBalance, currency),
+    ]);
+  }
+  if (data.closingBalance !== undefined) {
+    rows.push([
+      "Statement Closing Balance",
+      currencyCell(data.closingBalance, currency),
+    ]);
+  }
+  report.messages.forEach((message) => rows.push(["Note", message]));
+  rows.push([""]);
+
+  return rows;
+}
+
+function crossCheckSummaryRows(data: BankStatementData): Cell[][] {
+  const report = data.crossCheck;
+  if (!report) return [];
+
+  if (report.source === "ai") {
+    return [
+      ["AI Cross-check"],
+      ["Note", "Parser found no transactions; rows come from AI extraction"],
+      [""],
+    ];
+  }
+  return [
+    ["AI Cross-check"],
+    ["Rows Agreeing", report.matched],
+    ["Amount Disagreements", report.amountMismatches],
+    ["Date Disagreements", report.dateMismatches],
+    ["Missing From AI", report.missingFromAI],
+    ["Found Only By AI", report.missingFromParser.length],
+    ...report.missingFromParser.map((row) => [
+      "AI-only Row",
+      `${row.date} ${row.description} (${row.amount.toFixed(2)})`,
+    ]),
+    [""],
+  ];
+}
 
-  const symbol = symbols[currency] || "$";
+function formatCurrency(amount: number, currency: string): string {
+  const symbol = CURRENCY_SYMBOLS[currency] || "$";
   return `${symbol}${amount.toLocaleString("en-US", {
     minimumFractionDigits: 2,
     maximumFractionDigits: 2,
   })}`;
 }
-
-export async function handleCategoryFeedback(
-  description: string,
-  correctCategory: string
-): Promise<string[]> {
-  try {
-    return await retrainCategoryFromFeedback(description, correctCategory);
-  } catch (error) {
-    console.warn(`Failed to retrain category for "${description}"`, error);
-    return [];
-  }
-}
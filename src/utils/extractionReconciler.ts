@@ -0,0 +1,129 @@
+// A transaction reduced to what both extractors can be compared on. Dates
+// are ISO when resolved; debits carry a negative amount.
+export interface ComparableTransaction {
+  date: string;
+  description: string;
+  amount: number;
+}
+
+export type CrossCheckStatus =
+  | "matched"
+  | "amount-mismatch"
+  | "date-mismatch"
+  | "missing-from-ai";
+
+export interface TransactionCrossCheck {
+  status: CrossCheckStatus;
+  // What the AI extraction read for this row, when it disagrees
+  aiDate?: string;
+  aiAmount?: number;
+}
+
+export interface CrossCheckReport {
+  // Which extractor supplied the statement's transactions: the parser, or
+  // the AI extraction when the parser found none
+  source: "parser" | "ai";
+  matched: number;
+  amountMismatches: number;
+  dateMismatches: number;
+  missingFromAI: number;
+  // Rows only the AI extraction found
+  missingFromParser: ComparableTransaction[];
+}
+
+// Half a cent, to absorb floating point noise
+const TOLERANCE = 0.005;
+// Posting and transaction dates of the same row can be a few days apart
+const MAX_DATE_DRIFT_DAYS = 7;
+const DAY = 24 * 60 * 60 * 1000;
+
+function words(description: string): Set<string> {
+  return new Set(
+    description
+      .toLowerCase()
+      .split(/[^a-z0-9]+/)
+      .filter((word) => word.length >= 3 && !/^\d+$/.test(word))
+  );
+}
+
+function similarDescriptions(a: string, b: string): boolean {
+  const left = words(a);
+  const right = words(b);
+  if (left.size === 0 || right.size === 0) return false;
+  const shared = [...left].filter((word) => right.has(word)).length;
+  return shared / Math.min(left.size, right.size) >= 0.5;
+}
+
+function sameAmount(a: ComparableTransaction, b: ComparableTransaction) {
+  return Math.abs(a.amount - b.amount) <= TOLERANCE;
+}
+
+function daysApart(a: string, b: string): number {
+  const left = Date.parse(a);
+  const right = Date.parse(b);
+  if (isNaN(left) || isNaN(right)) return Infinity;
+  return Math.abs(left - right) / DAY;
+}
+
+// Pair each parsed row with a row of the AI extraction: first on date and
+// amount, then on amount with nearby dates (a date disagreement), then on
+// date and description (an amount disagreement). Parsed rows left over are
+// missing from the AI output; AI rows left over were missed by the parser.
+export function reconcileTransactions(
+  parsed: ComparableTransaction[],
+  extracted: ComparableTransaction[]
+): { checks: TransactionCrossCheck[]; report: CrossCheckReport } {
+  const used = new Set<number>();
+  const checks: Array<TransactionCrossCheck | undefined> = parsed.map(
+    () => undefined
+  );
+
+  const pair = (
+    matches: (p: ComparableTransaction, e: ComparableTransaction) => boolean,
+    check: (e: ComparableTransaction) => TransactionCrossCheck
+  ) => {
+    parsed.forEach((row, index) => {
+      if (checks[index]) return;
+      const match = extracted.findIndex(
+        (candidate, i) => !used.has(i) && matches(row, candidate)
+      );
+      if (match !== -1) {
+        used.add(match);
+        checks[index] = check(extracted[match]);
+      }
+    });
+  };
+
+  pair(
+    (p, e) => p.date === e.date && sameAmount(p, e),
+    () => ({ status: "matched" })
+  );
+  pair(
+    (p, e) =>
+      sameAmount(p, e) && daysApart(p.date, e.date) <= MAX_DATE_DRIFT_DAYS,
+    (e) => ({ status: "date-mismatch", aiDate: e.date })
+  );
+  pair(
+    (p, e) =>
+      p.date === e.date && similarDescriptions(p.description, e.description),
+    (e) => ({ status: "amount-mismatch", aiAmount: e.amount })
+  );
+
+  const final = checks.map(
+    (check): TransactionCrossCheck => check || { status: "missing-from-ai" }
+  );
+  const count = (status: CrossCheckStatus) =>
+    final.filter((check) => check.status === status).length;
+
+  return {
+    checks: final,
+    report: {
+      source: "parser",
+      matched: count("matched"),
+      amountMismatches: count("amount-mismatch"),
+      dateMismatches: count("date-mismatch"),
+      missingFromAI: count("missing-from-ai"),
+      missingFromParser: extracted.filter((_, index) => !used.has(index)),
+    },
+  };
+}
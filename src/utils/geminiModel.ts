@@ -1,4 +0,0 @@
-import { GoogleGenAI } from "@google/genai";
-const GEMINI_API_KEY = import.meta.env.VITE_APP_GEMINI_API_KEY;
-
-export const ai = new GoogleGenAI({ apiKey: GEMINI_API_KEY });
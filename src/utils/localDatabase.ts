@@ -0,0 +1,70 @@
+// The app's IndexedDB database, shared by the category cache and the
+// user's categorization rules
+const DB_NAME = "bank-statement-exporter";
+const DB_VERSION = 2;
+
+export const CATEGORY_STORE = "categories";
+export const RULE_STORE = "rules";
+
+let database: Promise<IDBDatabase | null> | null = null;
+
+export function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+export function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+// Resolves to null where IndexedDB is unavailable, e.g. private browsing,
+// or while another tab holding an older version blocks the upgrade;
+// callers then keep their data in memory
+export function openDatabase(): Promise<IDBDatabase | null> {
+  if (typeof indexedDB === "undefined") return Promise.resolve(null);
+
+  database =
+    database ||
+    new Promise((resolve) => {
+      let blocked = false;
+      const open = indexedDB.open(DB_NAME, DB_VERSION);
+      open.onupgradeneeded = () => {
+        if (!open.result.objectStoreNames.contains(CATEGORY_STORE)) {
+          open.result.createObjectStore(CATEGORY_STORE);
+        }
+        if (!open.result.objectStoreNames.contains(RULE_STORE)) {
+          open.result.createObjectStore(RULE_STORE, { keyPath: "id" });
+        }
+      };
+      open.onblocked = () => {
+        console.warn("Local database upgrade blocked by another tab");
+        blocked = true;
+        database = null;
+        resolve(null);
+      };
+      open.onsuccess = () => {
+        const db = open.result;
+        if (blocked) {
+          // The next call opens it again
+          db.close();
+          return;
+        }
+        // Let a newer version of the app in another tab upgrade it
+        db.onversionchange = () => {
+          db.close();
+          database = null;
+        };
+        resolve(db);
+      };
+      open.onerror = () => {
+        console.warn("Local database unavailable, using memory", open.error);
+        resolve(null);
+      };
+    });
+  return database;
+}
@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import { extractDetails } from "./merchantExtractor";
+
+describe("extractDetails", () => {
+  it("names the merchant behind processor prefixes and codes", () => {
+    expect(extractDetails("AMZN MKTP US*2K3L90 SEATTLE WA")).toEqual({
+      merchant: "Amazon",
+      location: "Seattle, WA",
+    });
+    expect(extractDetails("PAYPAL *NETFLIX").merchant).toBe("Netflix");
+  });
+
+  it("reads cheque numbers and wire details", () => {
+    expect(extractDetails("CHECK # 1042")).toEqual({
+      reference: "1042",
+      channel: "check",
+    });
+    expect(
+      extractDetails("WIRE TRANSFER TO JOHN SMITH REF 99887766")
+    ).toMatchObject({
+      channel: "wire",
+      counterparty: "John Smith",
+      reference: "99887766",
+    });
+  });
+
+  it("reads the company from NACHA ACH descriptions", () => {
+    expect(
+      extractDetails("ORIG CO NAME:ACME CORP CO ID:123 ENTRY DESCR:PAYROLL")
+    ).toMatchObject({
+      channel: "ach",
+      counterparty: "Acme Corp",
+      merchant: "Acme",
+      reference: undefined,
+    });
+  });
+
+  it("reads the card only from card payments", () => {
+    expect(
+      extractDetails("POS PURCHASE STARBUCKS XXXX1234 SEATTLE WA")
+    ).toMatchObject({
+      channel: "pos",
+      merchant: "Starbucks",
+      cardLast4: "1234",
+      location: "Seattle, WA",
+    });
+    expect(
+      extractDetails("ONLINE TRANSFER FROM SAVINGS XXXXXX1234")
+    ).toMatchObject({
+      channel: "transfer",
+      counterparty: "Savings",
+      cardLast4: undefined,
+    });
+  });
+});
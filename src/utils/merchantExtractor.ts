@@ -0,0 +1,300 @@
+import { callTaskAI, describeAIFailure, isAIEnabled } from "./aiProviders";
+import { normalizeDescription } from "./transactionCategorizer";
+
+export type TransactionChannel =
+  | "pos"
+  | "atm"
+  | "ach"
+  | "wire"
+  | "check"
+  | "transfer";
+
+// Structured fields read out of a raw description such as
+// "POS 1234 AMZN MKTP US*2K3L90 SEATTLE WA"
+export interface TransactionDetails {
+  // The merchant's common name, e.g. "Amazon", the same across stores
+  merchant?: string;
+  // The other party of a transfer, wire or ACH payment
+  counterparty?: string;
+  // Reference, confirmation or cheque number
+  reference?: string;
+  cardLast4?: string;
+  channel?: TransactionChannel;
+  location?: string;
+}
+
+export interface DetailExtractionOptions {
+  // Ask the AI provider about descriptions the rules leave without a
+  // merchant or counterparty
+  useAI?: boolean;
+  signal?: AbortSignal;
+}
+
+export interface DetailExtractionResult {
+  details: TransactionDetails[];
+  // Set when the AI step failed and only the rules were used
+  failureReason?: string;
+}
+
+// Descriptions sent per AI request
+const BATCH_SIZE = 40;
+
+// First match wins, so more specific channels come first
+const CHANNELS: Array<{ channel: TransactionChannel; pattern: RegExp }> = [
+  { channel: "atm", pattern: /\bATM\b|\bCASH (?:WITHDRAWAL|WDL)\b/ },
+  {
+    channel: "wire",
+    pattern: /\b(?:WIRE|FEDWIRE|WIRE TRANSFER|SWIFT|CHAPS|INTL TRANSFER)\b/,
+  },
+  {
+    channel: "check",
+    pattern: /\b(?:CHECK|CHEQUE|CHQ|CHK)\s*(?:NO\.?|#)?\s*\d{3,}/,
+  },
+  {
+    channel: "ach",
+    pattern:
+      /\b(?:ACH|ORIG CO NAME|PPD|CCD|WEB ID|DIRECT DEBIT|DIRECT DEP(?:OSIT)?|BACS|PREAUTHORIZED|PRE-AUTH)\b/,
+  },
+  {
+    channel: "transfer",
+    pattern:
+      /\b(?:TRANSFER|TFR|XFER|ZELLE|VENMO|FASTER PAYMENTS?|FPS|STANDING ORDER|INTERAC E-TRANSFER)\b/,
+  },
+  {
+    channel: "pos",
+    pattern:
+      /\b(?:POS|POINT OF SALE|CARD PURCHASE|DEBIT CARD|CHECKCARD|VISA DEBIT|PURCHASE|CONTACTLESS|APPLE PAY|GOOGLE PAY)\b/,
+  },
+];
+
+// Only read from card payments; masked numbers elsewhere are accounts
+const CARD_PATTERNS = [
+  /\bCARD\s*(?:NO\.?|#|ENDING(?: IN)?|ENDING WITH)?\s*[X*•]*\s*(\d{4})\b/,
+  /[X*•]{4,}\s?(\d{4})\b/,
+];
+
+const REFERENCE_PATTERNS = [
+  /\b(?:CHECK|CHEQUE|CHQ|CHK)\s*(?:NO\.?|#)?\s*(\d{3,})/,
+  /\b(?:REF(?:ERENCE)?|TRN|TRACE|CONF(?:IRMATION)?|TXN ID|(?<!(?:CO|IND) )ID)\s*(?:NO\.?|#|:)?\s*([A-Z0-9][A-Z0-9-]{3,})/,
+];
+
+const COUNTERPARTY_PATTERNS = [
+  /\b(?:ORIG CO NAME|ORIGINATOR|BNF|BENEFICIARY|B\/O|ORG)\s*[:=]\s*([A-Z0-9&.,' -]+?)(?=\s+(?:CO ID|CO ENTRY|ENTRY DESCR|DESCR|SEC|IND ID|IND NAME|TRN|REF|ID)\s*[:=#]|$)/,
+  /\b(?:TO|FROM|PAYMENT TO|PAYMENT FROM)\s+([A-Z][A-Z&.' -]+?)(?=\s+(?:REF|ON|CONF|ACCT|ACCOUNT|FOR)\b|\s+(?:[#*•\d]|X{2,})|$)/,
+];
+
+const US_STATES =
+  "AL|AK|AZ|AR|CA|CO|CT|DE|DC|FL|GA|HI|ID|IL|IN|IA|KS|KY|LA|ME|MD|MA|MI|MN|MS|MO|MT|NE|NV|NH|NJ|NM|NY|NC|ND|OH|OK|OR|PA|RI|SC|SD|TN|TX|UT|VT|VA|WA|WV|WI|WY";
+// A city and state at the end of the description, as card networks print
+// them: "SEATTLE WA", "NEW YORK NY 10001". Cities of more than two words
+// cannot be told apart from the merchant name and lose their first words.
+const LOCATION = new RegExp(
+  `\\s([A-Z][A-Z.'-]+(?: [A-Z][A-Z.'-]+)?),?\\s+(${US_STATES})(?:\\s+\\d{5})?\\s*$`
+);
+// Card numbers and terminal codes printed after the location
+const TRAILING_CODES =
+  /(?:\s+(?:CARD\s*(?:NO\.?|#|ENDING(?: IN)?)?\s*[X*•]*\d{4}|[A-Z]?\d[A-Z\d]*))+\s*$/;
+
+// Words that describe how a payment was made, not who was paid
+const CHANNEL_WORDS =
+  /\b(?:POS|POINT OF SALE|DEBIT CARD PURCHASE|DEBIT CARD|CARD PURCHASE|PURCHASE AUTHORIZED ON|PURCHASE|CHECKCARD|VISA DEBIT|CONTACTLESS|APPLE PAY|GOOGLE PAY|RECURRING(?: PAYMENT)?|ACH (?:DEBIT|CREDIT)|ACH|PREAUTHORIZED DEBIT|PRE-AUTH|DIRECT DEBIT|DIRECT DEP(?:OSIT)?|ONLINE PAYMENT|BILL PAYMENT|PAYMENT TO|WEB ID|PPD|CCD|DEBIT|CREDIT)\b/g;
+
+// Payment processors that put the merchant after an asterisk
+const PROCESSOR_PREFIX =
+  /^(?:SQ|TST|SP|PAYPAL|PP|IN|PY|GOOGLE|APL|CKO|BT|ZTL)\s*\*\s*/;
+
+// Common spellings of well-known merchants on card statements
+const MERCHANT_ALIASES: Array<[RegExp, string]> = [
+  [/\bAMZN\b|\bAMAZON\b/, "Amazon"],
+  [/\bWAL-?MART\b|\bWM SUPERCENTER\b/, "Walmart"],
+  [/\bTARGET\b/, "Target"],
+  [/\bCOSTCO\b/, "Costco"],
+  [/\bSTARBUCKS\b|\bSBUX\b/, "Starbucks"],
+  [/\bMCDONALD'?S\b/, "McDonald's"],
+  [/\bUBER\s*\*?\s*EATS\b/, "Uber Eats"],
+  [/\bUBER\b/, "Uber"],
+  [/\bLYFT\b/, "Lyft"],
+  [/\bDOORDASH\b/, "DoorDash"],
+  [/\bNETFLIX\b/, "Netflix"],
+  [/\bSPOTIFY\b/, "Spotify"],
+  [/\bAPPLE\.COM\b|\bITUNES\b/, "Apple"],
+  [/\bGOOGLE\b/, "Google"],
+  [/\bPAYPAL\b/, "PayPal"],
+  [/\bWHOLEFDS\b|\bWHOLE FOODS\b/, "Whole Foods"],
+  [/\bTRADER JOE'?S\b/, "Trader Joe's"],
+  [/\bHOME DEPOT\b/, "Home Depot"],
+  [/\bWALGREENS\b/, "Walgreens"],
+  [/\bCVS\b/, "CVS"],
+  [/\bSHELL\b/, "Shell"],
+  [/\bCHEVRON\b/, "Chevron"],
+  [/\bEXXON(?:MOBIL)?\b/, "ExxonMobil"],
+  [/\bAIRBNB\b/, "Airbnb"],
+  [/\bTESCO\b/, "Tesco"],
+  [/\bSAINSBURY'?S\b/, "Sainsbury's"],
+];
+
+function firstMatch(text: string, patterns: RegExp[]): string | undefined {
+  for (const pattern of patterns) {
+    const value = text.match(pattern)?.[1]?.trim();
+    if (value) return value;
+  }
+  return undefined;
+}
+
+function titleCase(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(
+      /(^|[\s&/-])([a-z])/g,
+      (_, space, letter) => space + letter.toUpperCase()
+    );
+}
+
+// The merchant's common name: a known alias, or the description without
+// channel words, processor prefixes, store numbers and references
+export function normalizeMerchant(description: string): string | undefined {
+  const text = description.toUpperCase();
+  const alias = MERCHANT_ALIASES.find(([pattern]) => pattern.test(text));
+  if (alias) return alias[1];
+
+  let name = text
+    .replace(CHANNEL_WORDS, " ")
+    .replace(/\b(?:REF|TRN|TRACE|CONF|ID)\b.*$/, " ")
+    .replace(/\bCARD\b.*$/, " ")
+    .replace(/\d{1,2}[/.-]\d{1,2}(?:[/.-]\d{2,4})?/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+  name = PROCESSOR_PREFIX.test(name)
+    ? name.replace(PROCESSOR_PREFIX, "")
+    : name.replace(/\*.*$/, "");
+  name = name
+    .replace(/\.(?:COM|NET|ORG|CO\.UK|CO)\b/g, " ")
+    .replace(/[#*]\s*\S*/g, " ")
+    .replace(/\b[X*•]*\d[\d-]*\b/g, " ")
+    .replace(/\b(?:INC|LLC|LTD|CO|CORP|US|USA|STORE)\b\.?/g, " ")
+    .replace(/[^A-Z&' -]+/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+
+  const words = name.split(" ").filter(Boolean).slice(0, 4);
+  return words.length > 0 ? titleCase(words.join(" ")) : undefined;
+}
+
+// Read merchant, counterparty, reference, card, channel and location out
+// of a description with the built-in rules
+export function extractDetails(description: string): TransactionDetails {
+  const text = description.toUpperCase().replace(/\s+/g, " ").trim();
+  const channel = CHANNELS.find(({ pattern }) => pattern.test(text))?.channel;
+
+  const trimmed = text.replace(TRAILING_CODES, "");
+  const location = trimmed.match(LOCATION);
+  const rest = location ? trimmed.slice(0, location.index) : text;
+
+  const counterparty =
+    channel === "transfer" || channel === "wire" || channel === "ach"
+      ? firstMatch(rest, COUNTERPARTY_PATTERNS)
+      : undefined;
+  // ACH payments name the company that collects or pays
+  let merchant: string | undefined;
+  if (channel === "ach" && counterparty) {
+    merchant = normalizeMerchant(counterparty);
+  } else if (
+    channel !== "atm" &&
+    channel !== "check" &&
+    !((channel === "transfer" || channel === "wire") && counterparty)
+  ) {
+    merchant = normalizeMerchant(rest);
+  }
+
+  return {
+    merchant,
+    counterparty: counterparty && titleCase(counterparty),
+    reference: firstMatch(text, REFERENCE_PATTERNS),
+    cardLast4:
+      channel === "pos" || /\bCARD\b/.test(text)
+        ? firstMatch(text, CARD_PATTERNS)
+        : undefined,
+    channel,
+    location: location
+      ? `${titleCase(location[1])}, ${location[2]}`
+      : undefined,
+  };
+}
+
+async function extractDetailsAI(
+  descriptions: string[],
+  signal?: AbortSignal
+): Promise<Map<number, TransactionDetails>> {
+  const parsed = await callTaskAI<
+    Array<
+      TransactionDetails & { id: number; channel?: TransactionChannel | "" }
+    >
+  >({ task: "merchant-extraction", input: { descriptions } }, { signal });
+
+  const results = new Map<number, TransactionDetails>();
+  for (const { id, channel, ...fields } of parsed) {
+    const details: TransactionDetails = { channel: channel || undefined };
+    for (const [key, value] of Object.entries(fields)) {
+      if (typeof value === "string" && value.trim()) {
+        details[key as Exclude<keyof TransactionDetails, "channel">] =
+          value.trim();
+      }
+    }
+    results.set(id, details);
+  }
+  return results;
+}
+
+// Extract details for many descriptions. The rules always run; with
+// `useAI`, descriptions they leave without a merchant or counterparty are
+// sent to the AI provider, de-duplicated, and its answers fill the gaps.
+export async function extractTransactionDetails(
+  descriptions: string[],
+  { useAI = false, signal }: DetailExtractionOptions = {}
+): Promise<DetailExtractionResult> {
+  const details = descriptions.map(extractDetails);
+  if (!useAI || !isAIEnabled()) return { details };
+
+  const keys = descriptions.map(
+    (d) => normalizeDescription(d) || d.trim().toLowerCase()
+  );
+  const unresolved = new Map<string, number[]>();
+  details.forEach((detail, index) => {
+    // Cash and cheques have no merchant to find
+    if (detail.merchant || detail.counterparty) return;
+    if (detail.channel === "atm" || detail.channel === "check") return;
+    unresolved.set(keys[index], [
+      ...(unresolved.get(keys[index]) || []),
+      index,
+    ]);
+  });
+
+  const groups = [...unresolved.values()];
+  for (let start = 0; start < groups.length; start += BATCH_SIZE) {
+    signal?.throwIfAborted();
+    const batch = groups.slice(start, start + BATCH_SIZE);
+    try {
+      const results = await extractDetailsAI(
+        batch.map((indices) => descriptions[indices[0]]),
+        signal
+      );
+      results.forEach((found, id) => {
+        batch[id]?.forEach((index) => {
+          details[index] = { ...found, ...stripEmpty(details[index]) };
+        });
+      });
+    } catch (error) {
+      signal?.throwIfAborted();
+      console.warn("AI merchant extraction failed, using rules only", error);
+      return { details, failureReason: describeAIFailure(error) };
+    }
+  }
+  return { details };
+}
+
+// The rules' answers win over the AI's where both have one
+function stripEmpty(details: TransactionDetails): TransactionDetails {
+  return Object.fromEntries(
+    Object.entries(details).filter(([, value]) => value !== undefined)
+  );
+}
@@ -0,0 +1,80 @@
+import type { PDFPageProxy } from "pdfjs-dist";
+import { createWorker, OEM, Worker } from "tesseract.js";
+import workerUrl from "tesseract.js/dist/worker.min.js?url";
+import coreUrl from "tesseract.js-core/tesseract-core-simd-lstm.wasm.js?url";
+import engDataUrl from "@tesseract.js-data/eng/4.0.0_best_int/eng.traineddata.gz?url";
+import { PositionedText } from "./textLayout";
+
+export type OcrEngine = Worker;
+
+export interface OcrPageResult {
+  items: PositionedText[];
+  // Mean word confidence reported by the engine, 0-1
+  confidence: number;
+}
+
+// Render scale for OCR; pdf.js renders at 72 dpi, so 3x is about 216 dpi
+const OCR_SCALE = 3;
+
+function absoluteUrl(url: string): string {
+  return new URL(url, window.location.href).href;
+}
+
+// The engine, its WebAssembly core and the English model are all bundled
+// with the app, so OCR never downloads anything at runtime
+export async function createOcrEngine(): Promise<OcrEngine> {
+  const response = await fetch(engDataUrl);
+  if (!response.ok) {
+    throw new Error(`Failed to load OCR language data: ${response.status}`);
+  }
+  const data = new Uint8Array(await response.arrayBuffer());
+
+  return createWorker([{ code: "eng", data }], OEM.LSTM_ONLY, {
+    workerPath: absoluteUrl(workerUrl),
+    corePath: absoluteUrl(coreUrl),
+    cacheMethod: "none",
+  });
+}
+
+// Render a page without a text layer and read its words, positioned in the
+// page's PDF coordinates like pdf.js text items
+export async function recognizePage(
+  engine: OcrEngine,
+  page: PDFPageProxy
+): Promise<OcrPageResult> {
+  const viewport = page.getViewport({ scale: OCR_SCALE });
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.ceil(viewport.width);
+  canvas.height = Math.ceil(viewport.height);
+
+  await page.render({ canvas, viewport }).promise;
+  const { data } = await engine.recognize(canvas, {}, { blocks: true });
+  canvas.width = canvas.height = 0;
+
+  const words = (data.blocks || [])
+    .flatMap((block) => block.paragraphs)
+    .flatMap((paragraph) => paragraph.lines)
+    .flatMap((line) => line.words)
+    .filter((word) => word.text.trim());
+
+  const items = words.map((word) => {
+    const [x0, y0] = viewport.convertToPdfPoint(word.bbox.x0, word.bbox.y1);
+    const [x1, y1] = viewport.convertToPdfPoint(word.bbox.x1, word.bbox.y0);
+    return {
+      str: word.text,
+      x: Math.min(x0, x1),
+      y: Math.min(y0, y1),
+      width: Math.abs(x1 - x0),
+      height: Math.abs(y1 - y0),
+    };
+  });
+
+  const confidence =
+    words.length > 0
+      ? words.reduce((sum, word) => sum + word.confidence, 0) /
+        words.length /
+        100
+      : 0;
+
+  return { items, confidence };
+}
@@ -0,0 +1,107 @@
+import { describe, expect, it } from "vitest";
+import { ExportOptions } from "./excelExporter";
+import { createOfx, DEFAULT_OFX_OPTIONS } from "./ofxExporter";
+import { BankStatementData } from "./pdfParser";
+
+const options: ExportOptions = {
+  includeCategories: true,
+  includeBalance: false,
+  dateFormat: "YYYY-MM-DD",
+  currency: "USD",
+  groupByMonth: false,
+  includeSummary: false,
+};
+
+const statement: BankStatementData = {
+  bankName: "Test Bank",
+  bankProfileId: "generic",
+  accountNumber: "****1234",
+  statementPeriod: "January 2024",
+  openingBalance: 100,
+  transactions: [
+    {
+      date: "2024-01-05",
+      description: "Coffee",
+      amount: 3.5,
+      type: "debit",
+    },
+    {
+      date: "2024-01-05",
+      description: "Coffee",
+      amount: 3.5,
+      type: "debit",
+    },
+    {
+      date: "2024-01-09",
+      description: "Refund",
+      amount: 20,
+      type: "credit",
+    },
+  ],
+};
+
+function elements(ofx: string, tag: string): string[] {
+  return Array.from(
+    ofx.matchAll(new RegExp(`<${tag}>([^<]*)</${tag}>`, "g")),
+    (match) => match[1]
+  );
+}
+
+describe("createOfx", () => {
+  it("gives every transaction a FITID that survives re-exporting", () => {
+    const first = elements(createOfx([statement], options), "FITID");
+    const again = elements(
+      createOfx([{ ...statement, bankName: "Renamed" }], options),
+      "FITID"
+    );
+
+    expect(first).toHaveLength(3);
+    expect(new Set(first).size).toBe(3);
+    expect(again).toEqual(first);
+  });
+
+  it("writes the elements a statement response requires", () => {
+    const ofx = createOfx([statement], options);
+
+    for (const tag of [
+      "SIGNONMSGSRSV1",
+      "BANKMSGSRSV1",
+      "STMTTRNRS",
+      "STMTRS",
+      "BANKACCTFROM",
+      "BANKTRANLIST",
+      "LEDGERBAL",
+    ]) {
+      expect(ofx).toContain(`<${tag}>`);
+    }
+    expect(elements(ofx, "TRNUID")).toEqual(["1"]);
+    expect(elements(ofx, "CURDEF")).toEqual(["USD"]);
+    expect(elements(ofx, "ACCTID")).toEqual(["1234"]);
+    expect(elements(ofx, "TRNAMT")).toEqual(["-3.50", "-3.50", "20.00"]);
+  });
+
+  it("computes the ledger balance when none is printed", () => {
+    const ofx = createOfx([statement], options);
+
+    expect(elements(ofx, "BALAMT")).toEqual(["113.00"]);
+    expect(elements(ofx, "DTASOF")).toEqual(elements(ofx, "DTEND"));
+    expect(elements(ofx, "DTEND")).toEqual(["20240109"]);
+  });
+
+  it("uses the account number from the options when none was found", () => {
+    const unknown = { ...statement, accountNumber: "Unknown" };
+
+    expect(elements(createOfx([unknown], options), "ACCTID")).toEqual([
+      "UNKNOWN",
+    ]);
+    expect(
+      elements(
+        createOfx([unknown], options, {
+          ...DEFAULT_OFX_OPTIONS,
+          accountId: "12-3456",
+        }),
+        "ACCTID"
+      )
+    ).toEqual(["123456"]);
+  });
+});
@@ -0,0 +1,242 @@
+import { BankStatementData, ParsedTransaction } from "./pdfParser";
+import { ExportOptions, exportFilename, ExportResult } from "./excelExporter";
+import { combineStatements } from "./statementCollection";
+import { downloadFile } from "./download";
+
+export interface OfxOptions {
+  accountType: "CHECKING" | "SAVINGS" | "MONEYMRKT" | "CREDITLINE";
+  // Routing number or sort code; statements rarely print one
+  bankId?: string;
+  // Used for statements whose account number was not found
+  accountId?: string;
+  // Quicken only imports QFX files naming a bank it knows. Any
+  // participating bank's id works for a file imported by hand.
+  intuitBankId?: string;
+}
+
+export const DEFAULT_OFX_OPTIONS: OfxOptions = {
+  accountType: "CHECKING",
+  intuitBankId: "3000",
+};
+
+// Field lengths allowed by the OFX 2 schema
+const MAX_NAME_LENGTH = 32;
+const MAX_MEMO_LENGTH = 255;
+const MAX_ACCOUNT_ID_LENGTH = 22;
+
+// OFX 2.2, the XML form of the format. QFX is the same file with the
+// Intuit sign-on fields Quicken requires.
+export function createOfx(
+  statements: BankStatementData[],
+  options: ExportOptions,
+  ofx: OfxOptions = DEFAULT_OFX_OPTIONS,
+  variant: "ofx" | "qfx" = "ofx"
+): string {
+  const now = ofxDateTime(new Date());
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8" standalone="no"?>',
+    '<?OFX OFXHEADER="200" VERSION="220" SECURITY="NONE" OLDFILEUID="NONE" NEWFILEUID="NONE"?>',
+    "<OFX>",
+    "<SIGNONMSGSRSV1>",
+    "<SONRS>",
+    ...status(),
+    `<DTSERVER>${now}</DTSERVER>`,
+    "<LANGUAGE>ENG</LANGUAGE>",
+    ...(variant === "qfx"
+      ? [
+          "<FI>",
+          `<ORG>${escape(statements[0]?.bankName || "Bank")}</ORG>`,
+          `<FID>${escape(ofx.intuitBankId || "")}</FID>`,
+          "</FI>",
+          `<INTU.BID>${escape(ofx.intuitBankId || "")}</INTU.BID>`,
+        ]
+      : []),
+    "</SONRS>",
+    "</SIGNONMSGSRSV1>",
+    "<BANKMSGSRSV1>",
+    ...statements.flatMap((statement, index) =>
+      statementResponse(statement, index + 1, options, ofx)
+    ),
+    "</BANKMSGSRSV1>",
+    "</OFX>",
+  ];
+  return lines.join("\n") + "\n";
+}
+
+// One STMTTRNRS per statement, since each may be a different account
+function statementResponse(
+  statement: BankStatementData,
+  requestId: number,
+  options: ExportOptions,
+  ofx: OfxOptions
+): string[] {
+  const dated = statement.transactions.filter((t) => ofxDate(t.date));
+  const dates = dated.map((t) => ofxDate(t.date)).sort();
+  const start = dates[0] || ofxDateTime(new Date()).slice(0, 8);
+  const end = dates[dates.length - 1] || start;
+  const fitIds = createFitIds(statement.accountNumber, dated);
+
+  return [
+    "<STMTTRNRS>",
+    `<TRNUID>${requestId}</TRNUID>`,
+    ...status(),
+    "<STMTRS>",
+    `<CURDEF>${escape(statement.currency || options.currency)}</CURDEF>`,
+    "<BANKACCTFROM>",
+    `<BANKID>${escape(ofx.bankId || "000000000")}</BANKID>`,
+    `<ACCTID>${escape(accountId(statement.accountNumber, ofx))}</ACCTID>`,
+    `<ACCTTYPE>${ofx.accountType}</ACCTTYPE>`,
+    "</BANKACCTFROM>",
+    "<BANKTRANLIST>",
+    `<DTSTART>${start}</DTSTART>`,
+    `<DTEND>${end}</DTEND>`,
+    ...dated.flatMap((transaction, index) =>
+      statementTransaction(transaction, fitIds[index])
+    ),
+    "</BANKTRANLIST>",
+    // Required by the schema, even when the statement prints no balance
+    "<LEDGERBAL>",
+    `<BALAMT>${ledgerBalance(statement).toFixed(2)}</BALAMT>`,
+    `<DTASOF>${end}</DTASOF>`,
+    "</LEDGERBAL>",
+    "</STMTRS>",
+    "</STMTTRNRS>",
+  ];
+}
+
+function signedAmount(transaction: ParsedTransaction): number {
+  return transaction.type === "credit"
+    ? transaction.amount
+    : -transaction.amount;
+}
+
+// The closing balance, or else the running total: each printed balance,
+// carried forward by the transactions after it, from the opening balance
+// or zero
+function ledgerBalance(statement: BankStatementData): number {
+  if (statement.closingBalance !== undefined) return statement.closingBalance;
+  return statement.transactions.reduce(
+    (balance, transaction) =>
+      transaction.balance ?? balance + signedAmount(transaction),
+    statement.openingBalance ?? 0
+  );
+}
+
+function statementTransaction(
+  transaction: ParsedTransaction,
+  fitId: string
+): string[] {
+  const amount = signedAmount(transaction);
+  const name = transaction.merchant || transaction.description;
+  return [
+    "<STMTTRN>",
+    `<TRNTYPE>${transaction.type === "credit" ? "CREDIT" : "DEBIT"}</TRNTYPE>`,
+    `<DTPOSTED>${ofxDate(transaction.date)}</DTPOSTED>`,
+    `<TRNAMT>${amount.toFixed(2)}</TRNAMT>`,
+    `<FITID>${fitId}</FITID>`,
+    `<NAME>${escape(name.slice(0, MAX_NAME_LENGTH))}</NAME>`,
+    ...(name !== transaction.description ||
+    transaction.description.length > MAX_NAME_LENGTH
+      ? [
+          `<MEMO>${escape(
+            transaction.description.slice(0, MAX_MEMO_LENGTH)
+          )}</MEMO>`,
+        ]
+      : []),
+    "</STMTTRN>",
+  ];
+}
+
+function status(): string[] {
+  return [
+    "<STATUS>",
+    "<CODE>0</CODE>",
+    "<SEVERITY>INFO</SEVERITY>",
+    "</STATUS>",
+  ];
+}
+
+// Importers skip transactions whose FITID they have seen before, so the
+// id must come out the same every time the statement is exported. It is
+// derived from the transaction itself; identical transactions on the same
+// day are told apart by their order.
+function createFitIds(
+  accountNumber: string,
+  transactions: ParsedTransaction[]
+): string[] {
+  const seen = new Map<string, number>();
+  return transactions.map((transaction) => {
+    const key = [
+      accountNumber,
+      transaction.date,
+      transaction.type,
+      transaction.amount.toFixed(2),
+      // As printed, so renaming rules do not change the id
+      transaction.originalDescription ?? transaction.description,
+    ].join("|");
+    const occurrence = (seen.get(key) || 0) + 1;
+    seen.set(key, occurrence);
+    return `${ofxDate(transaction.date)}-${fnv1a(key)}-${occurrence}`;
+  });
+}
+
+// 32-bit FNV-1a, as 8 hex digits
+function fnv1a(text: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, "0");
+}
+
+// Masked and formatted account numbers keep only their letters and
+// digits. The parser records a missing number as "Unknown".
+function accountId(accountNumber: string, ofx: OfxOptions): string {
+  const found =
+    accountNumber === "Unknown"
+      ? ""
+      : accountNumber.replace(/[^A-Za-z0-9]/g, "");
+  const id = found || ofx.accountId?.replace(/[^A-Za-z0-9]/g, "");
+  return (id || "UNKNOWN").slice(-MAX_ACCOUNT_ID_LENGTH);
+}
+
+// YYYYMMDD for ISO dates; empty for dates that never resolved
+function ofxDate(date: string): string {
+  const match = date.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  return match ? `${match[1]}${match[2]}${match[3]}` : "";
+}
+
+function ofxDateTime(date: Date): string {
+  return date.toISOString().replace(/[-:T]/g, "").slice(0, 14);
+}
+
+function escape(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+}
+
+// Export each statement as its own account in one file. Transactions
+// without a date are left out and counted.
+export async function exportToOfx(
+  statements: BankStatementData | BankStatementData[],
+  options: ExportOptions
+): Promise<ExportResult> {
+  const list = Array.isArray(statements) ? statements : [statements];
+  if (list.length === 0) return { skippedTransactions: 0 };
+
+  const variant = options.format === "qfx" ? "qfx" : "ofx";
+  const ofx = { ...DEFAULT_OFX_OPTIONS, ...options.ofx };
+  downloadFile(
+    createOfx(list, options, ofx, variant),
+    exportFilename(combineStatements(list), variant),
+    variant === "qfx" ? "application/vnd.intu.qfx" : "application/x-ofx"
+  );
+  return {
+    skippedTransactions: list
+      .flatMap((statement) => statement.transactions)
+      .filter((t) => !ofxDate(t.date)).length,
+  };
+}
@@ -1,8 +1,72 @@
 import * as pdfjsLib from "pdfjs-dist";
+import type { PDFDocumentProxy } from "pdfjs-dist";
 import "/node_modules/pdfjs-dist/build/pdf.worker.mjs";
-import { ai } from "./geminiModel";
-
-export interface ParsedTransaction {
+import {
+  BANK_DETECTION_CHARS,
+  callTaskAI,
+  describeAIFailure,
+  findHolderNames,
+  isAIEnabled,
+  registerHolderNames,
+} from "./aiProviders";
+import {
+  categorizeDescriptions,
+  CategoryResult,
+  fallbackCategory,
+} from "./transactionCategorizer";
+import {
+  applyCategoryRules,
+  getCategoryRules,
+  USER_RULE_CONFIDENCE,
+} from "./categoryRules";
+import { AIExtraction, extractStatementAI } from "./aiExtractor";
+import {
+  extractTransactionDetails,
+  TransactionDetails,
+} from "./merchantExtractor";
+import {
+  CrossCheckReport,
+  reconcileTransactions,
+  TransactionCrossCheck,
+} from "./extractionReconciler";
+import { createOcrEngine, OcrEngine, recognizePage } from "./ocr";
+import {
+  buildPageLayout,
+  layoutToText,
+  PageLayout,
+  toPositionedText,
+} from "./textLayout";
+import {
+  ColumnDefinition,
+  extractTransactionsByColumns,
+  findHeaderRow,
+  RawTransaction,
+} from "./columnExtractor";
+import {
+  BankProfile,
+  detectBankProfile,
+  genericProfile,
+} from "./bankProfiles";
+import {
+  createDateResolver,
+  DATE_PATTERN_SOURCE,
+  DateIssue,
+  DateOrder,
+  sortByDate,
+} from "./dateParser";
+import {
+  AMOUNT_PATTERN_SOURCE,
+  findAmounts,
+  parseAmount,
+} from "./amountParser";
+import type {
+  TransactionValidation,
+  ValidationReport,
+} from "./statementValidator";
+
+// Merchant, counterparty, reference, card, channel and location fields
+// come from TransactionDetails
+export interface ParsedTransaction extends TransactionDetails {
   date: string;
   description: string;
   amount: number;
@@ -10,156 +74,512 @@ export interface ParsedTransaction {
   type: "debit" | "credit";
   category?: string;
   confidence?: number;
+  // Set when the date could not be resolved; `date` then holds the text
+  // exactly as printed on the statement
+  dateIssue?: DateIssue;
+  validation?: TransactionValidation;
+  // Name of the uploaded file, set when statements are combined
+  sourceFile?: string;
+  // Why AI categorization failed for this row, when the category came from
+  // the built-in rules instead
+  categoryFailure?: string;
+  // Agreement with the whole-statement AI extraction, in cross-check mode
+  crossCheck?: TransactionCrossCheck;
+  // Set by the user's categorization rules
+  tags?: string[];
+  ruleIds?: string[];
+  // The description as printed, when a rule renamed the transaction
+  originalDescription?: string;
+  // The category a rule replaced, put back when no rule sets one
+  categoryBeforeRules?: Pick<
+    ParsedTransaction,
+    "category" | "confidence" | "categoryFailure"
+  >;
+}
+
+// An AI step that failed for the whole statement and fell back to rules
+export interface AIFailure {
+  task:
+    | "bank-detection"
+    | "column-inference"
+    | "categorization"
+    | "statement-extraction"
+    | "merchant-extraction";
+  reason: string;
+}
+
+export interface PageExtraction {
+  pageNumber: number;
+  source: "text" | "ocr";
+  // Mean OCR word confidence (0-1) for pages read from the rendered image
+  ocrConfidence?: number;
 }
 
 export interface BankStatementData {
   bankName: string;
+  bankProfileId: string;
   accountNumber: string;
   statementPeriod: string;
   transactions: ParsedTransaction[];
   openingBalance?: number;
   closingBalance?: number;
+  dateOrder?: DateOrder;
+  // ISO 4217 code of the currency printed next to the amounts, if any
+  currency?: string;
+  validation?: ValidationReport;
+  pages?: PageExtraction[];
+  sourceFile?: string;
+  aiFailures?: AIFailure[];
+  crossCheck?: CrossCheckReport;
 }
 
-interface ColumnDefinition {
-  name: string;
-  dataType: "date" | "text" | "amount" | "balance";
-  confidence: number;
-}
-
-//  SDK-powered helper function
-async function callAI(prompt: string): Promise<string> {
-  try {
-    const response = await ai.models.generateContent({
-      model: "gemini-2.0-flash-001",
-      contents: prompt,
-    });
-    const content = response.text;
-
-    if (!content) {
-      throw new Error("No response from AI API");
+// Progress reported while a statement is parsed
+export type ParseProgress =
+  | {
+      stage: "page-extracted";
+      page: number;
+      totalPages: number;
+      source: PageExtraction["source"];
     }
-    return content;
-  } catch (error: any) {
-    console.error(`nAI API error (model: ):`, error.message);
-    throw error;
-  }
-}
+  | { stage: "bank-detected"; bankName: string }
+  | { stage: "transactions-parsed"; count: number }
+  | { stage: "ai-extraction"; chunk: number; totalChunks: number }
+  | { stage: "categorizing"; done: number; total: number };
 
 // AI-powered bank name detection
-async function detectBankNameAI(text: string): Promise<string> {
-  const prompt = `Extract the bank name from the following PDF text:\n\n${text}\n\nOnly respond with the bank name.`;
-  return callAI(prompt);
+async function detectBankNameAI(
+  text: string,
+  signal?: AbortSignal
+): Promise<string> {
+  const { bankName } = await callTaskAI<{ bankName: string }>(
+    {
+      task: "bank-detection",
+      input: { text: text.slice(0, BANK_DETECTION_CHARS) },
+    },
+    { signal }
+  );
+  return bankName;
 }
 
 // AI-powered column structure inference
-async function inferColumnsAI(headerLine: string): Promise<ColumnDefinition[]> {
-  const prompt = `Given this table header from a bank statement: "${headerLine}", map each column to a standard data type (date, text, amount, balance). Respond as JSON with keys: name, dataType, confidence (0-1).`;
-  const response = await callAI(prompt);
-  return JSON.parse(response);
+async function inferColumnsAI(
+  headerLine: string,
+  signal?: AbortSignal
+): Promise<ColumnDefinition[]> {
+  return callTaskAI<ColumnDefinition[]>(
+    { task: "column-inference", input: { header: headerLine } },
+    { signal }
+  );
+}
+
+// Used when the header cannot be mapped by AI; header cells these do not
+// cover are typed from their labels
+const FALLBACK_COLUMNS: ColumnDefinition[] = [
+  { name: "Date", dataType: "date", confidence: 0.9 },
+  { name: "Description", dataType: "text", confidence: 0.9 },
+  { name: "Amount", dataType: "amount", confidence: 0.9 },
+  { name: "Balance", dataType: "balance", confidence: 0.8 },
+];
+
+export interface ParseOptions {
+  // Password for encrypted statements. Only ever held in memory.
+  password?: string;
+  // Cancels parsing, including in-flight AI requests; parsePDFStatement
+  // then rejects with the signal's abort reason
+  signal?: AbortSignal;
+  onProgress?: (progress: ParseProgress) => void;
+  // "ai-cross-check" also extracts the whole statement with AI and compares
+  // it row by row with the parser; its rows are used if the parser finds none
+  extractionMode?: "rules" | "ai-cross-check";
+  // Ask AI for merchant and counterparty names the built-in rules miss
+  merchantAI?: boolean;
 }
 
-// AI-powered transaction categorization
-async function categorizeTransactionAI(
-  description: string
-): Promise<{ category: string; confidence: number }> {
-  const prompt = `Categorize this transaction description: "${description}". Return the category (like Food, Travel, Income) and confidence score between 0 and 1 as JSON.`;
-  const response = await callAI(prompt);
-  return JSON.parse(response);
+// Thrown when a statement is encrypted and no password, or a wrong one,
+// was supplied
+export class PasswordRequiredError extends Error {
+  reason: "required" | "incorrect";
+
+  constructor(reason: "required" | "incorrect") {
+    super(
+      reason === "incorrect"
+        ? "Incorrect password for this PDF statement"
+        : "This PDF statement is password protected"
+    );
+    this.name = "PasswordRequiredError";
+    this.reason = reason;
+  }
 }
 
-// Fallback patterns
-const BANK_PATTERNS = {
-  generic: {
-    name: "Generic Bank",
-    datePattern: /(\d{1,2}[\/\-]\d{1,2}[\/\-]\d{2,4})/g,
-    amountPattern: /[\$]?[\-]?[\d,]+\.[\d]{2}/g,
-    accountPattern: /(?:Account|Acct)[\s#:]+(\d+)/i,
-    transactionPattern:
-      /(\d{1,2}[\/\-]\d{1,2}[\/\-]\d{2,4})\s+(.+?)\s+([\-\$\d,\.]+)(?:\s+([\$\d,\.]+))?/g,
-  },
-};
+async function openDocument(
+  data: ArrayBuffer,
+  password?: string
+): Promise<PDFDocumentProxy> {
+  const loadingTask = pdfjsLib.getDocument({ data });
+
+  return new Promise((resolve, reject) => {
+    loadingTask.onPassword = (
+      updatePassword: (password: string) => void,
+      reason: number
+    ) => {
+      if (reason === pdfjsLib.PasswordResponses.NEED_PASSWORD && password) {
+        updatePassword(password);
+        return;
+      }
+      reject(
+        new PasswordRequiredError(
+          reason === pdfjsLib.PasswordResponses.INCORRECT_PASSWORD
+            ? "incorrect"
+            : "required"
+        )
+      );
+      loadingTask.destroy();
+    };
+    loadingTask.promise.then(resolve, reject);
+  });
+}
 
 export async function parsePDFStatement(
-  file: File
+  file: File,
+  options: ParseOptions = {}
 ): Promise<BankStatementData> {
+  const { signal, onProgress } = options;
+  let pdf: PDFDocumentProxy | null = null;
   try {
     const arrayBuffer = await file.arrayBuffer();
-    const pdf = await pdfjsLib.getDocument({ data: arrayBuffer }).promise;
-
-    let fullText = "";
-    let headerLine = "";
-
-    for (let i = 1; i <= pdf.numPages; i++) {
-      const page = await pdf.getPage(i);
-      const textContent = await page.getTextContent();
-      const pageText = textContent.items
-        .map((item: any) => item.str || "")
-        .join(" ");
-      fullText += pageText + "\n";
-
-      if (i === 1) {
-        const lines = pageText.split("\n");
-        headerLine =
-          lines.find((line) =>
-            line.match(/date|description|amount|balance/i)
-          ) || "";
+    signal?.throwIfAborted();
+    pdf = await openDocument(arrayBuffer, options.password);
+
+    const layouts: PageLayout[] = [];
+    const pages: PageExtraction[] = [];
+    let ocrEngine: OcrEngine | null = null;
+    try {
+      for (let i = 1; i <= pdf.numPages; i++) {
+        signal?.throwIfAborted();
+        const page = await pdf.getPage(i);
+        const textContent = await page.getTextContent();
+        const items = toPositionedText(textContent.items);
+
+        // Scanned pages have no text layer; read them with OCR instead
+        if (items.length === 0) {
+          ocrEngine = ocrEngine || (await createOcrEngine());
+          const ocr = await recognizePage(ocrEngine, page);
+          layouts.push(buildPageLayout(i, ocr.items));
+          pages.push({
+            pageNumber: i,
+            source: "ocr",
+            ocrConfidence: ocr.confidence,
+          });
+        } else {
+          layouts.push(buildPageLayout(i, items));
+          pages.push({ pageNumber: i, source: "text" });
+        }
+        onProgress?.({
+          stage: "page-extracted",
+          page: i,
+          totalPages: pdf.numPages,
+          source: pages[pages.length - 1].source,
+        });
       }
+    } finally {
+      await ocrEngine?.terminate();
     }
 
-    const bankName = await detectBankNameAI(fullText);
-    const accountMatch = fullText.match(BANK_PATTERNS.generic.accountPattern);
-    const accountNumber = accountMatch ? accountMatch[1] : "Unknown";
-    const statementPeriod = extractStatementPeriod(fullText);
+    const fullText = layouts.map(layoutToText).join("\n");
+    // Redacted from every AI request made while processing this session
+    registerHolderNames(findHolderNames(fullText));
+    const { profile } = detectBankProfile(
+      layouts.length > 0 ? layoutToText(layouts[0]) : ""
+    );
+    const headerLine = findHeaderRow(layouts, profile.columns)?.text || "";
 
-    let columns: ColumnDefinition[] = [];
-    if (headerLine) {
+    const aiFailures: AIFailure[] = [];
+    let bankName = profile.name;
+    if (profile.id === genericProfile.id && !isAIEnabled()) {
+      bankName = "Unknown Bank";
+    } else if (profile.id === genericProfile.id) {
+      try {
+        bankName = (await detectBankNameAI(fullText, signal)).trim();
+      } catch (error) {
+        signal?.throwIfAborted();
+        console.warn("AI bank detection failed, using fallback", error);
+        aiFailures.push({
+          task: "bank-detection",
+          reason: describeAIFailure(error),
+        });
+        bankName = "Unknown Bank";
+      }
+    }
+    onProgress?.({ stage: "bank-detected", bankName });
+    const accountMatch = fullText.match(profile.accountPattern);
+    let accountNumber = accountMatch ? accountMatch[1] : "Unknown";
+    let statementPeriod = extractStatementPeriod(fullText, profile);
+
+    let columns: ColumnDefinition[] = profile.columns || [];
+    if (!profile.columns && headerLine && !isAIEnabled()) {
+      columns = FALLBACK_COLUMNS;
+    } else if (!profile.columns && headerLine) {
       try {
-        columns = await inferColumnsAI(headerLine);
+        columns = await inferColumnsAI(headerLine, signal);
       } catch (error) {
+        signal?.throwIfAborted();
         console.warn("AI column inference failed, using fallback", error);
-        columns = [
-          { name: "Date", dataType: "date", confidence: 0.9 },
-          { name: "Description", dataType: "text", confidence: 0.9 },
-          { name: "Amount", dataType: "amount", confidence: 0.9 },
-          { name: "Balance", dataType: "balance", confidence: 0.8 },
-        ];
+        aiFailures.push({
+          task: "column-inference",
+          reason: describeAIFailure(error),
+        });
+        columns = FALLBACK_COLUMNS;
+      }
+    }
+
+    let aiExtraction: AIExtraction | undefined;
+    if (options.extractionMode === "ai-cross-check" && isAIEnabled()) {
+      try {
+        aiExtraction = await extractStatementAI(layouts, {
+          signal,
+          onChunk: (chunk, totalChunks) =>
+            onProgress?.({ stage: "ai-extraction", chunk, totalChunks }),
+        });
+      } catch (error) {
+        signal?.throwIfAborted();
+        console.warn("AI statement extraction failed", error);
+        aiFailures.push({
+          task: "statement-extraction",
+          reason: describeAIFailure(error),
+        });
       }
     }
 
-    const transactions = await parseTransactions(fullText, columns);
-    const { openingBalance, closingBalance } = extractBalances(fullText);
+    // The AI extraction fills in whatever the profile's patterns missed
+    const metadata = aiExtraction?.metadata || {};
+    if (bankName === "Unknown Bank" && metadata.bankName) {
+      bankName = metadata.bankName;
+    }
+    if (accountNumber === "Unknown" && metadata.accountNumber) {
+      accountNumber = metadata.accountNumber;
+    }
+    if (statementPeriod === "Unknown Period" && metadata.statementPeriod) {
+      statementPeriod = metadata.statementPeriod;
+    }
+
+    const { transactions, dateOrder, currency, crossCheck, detailFailure } =
+      await parseTransactions(
+        layouts,
+        columns,
+        profile,
+        statementPeriod,
+        options,
+        aiExtraction?.transactions
+      );
+    if (detailFailure) {
+      aiFailures.push({ task: "merchant-extraction", reason: detailFailure });
+    }
+    const balances = extractBalances(fullText, profile);
+    const openingBalance = balances.openingBalance ?? metadata.openingBalance;
+    const closingBalance = balances.closingBalance ?? metadata.closingBalance;
 
     return {
       bankName,
+      bankProfileId: profile.id,
       accountNumber,
       statementPeriod,
       transactions,
       openingBalance,
       closingBalance,
+      dateOrder,
+      currency: currency ?? metadata.currency,
+      pages,
+      sourceFile: file.name,
+      aiFailures: [...aiFailures, ...categorizationFailures(transactions)],
+      crossCheck,
     };
   } catch (error) {
+    if (error instanceof PasswordRequiredError || signal?.aborted) {
+      throw error;
+    }
     console.error("Error parsing PDF:", error);
     throw new Error(
       `Failed to parse PDF statement: ${
         error instanceof Error ? error.message : "Unknown error"
       }. Please ensure the file is a valid bank statement.`
     );
+  } finally {
+    await pdf?.destroy();
   }
 }
 
-// Rest of the functions (parseTransactions, parseTransactionsAlternative, normalizeDate, categorizeTransaction, extractStatementPeriod, extractBalances) remain unchanged from the previous version.
-
 async function parseTransactions(
-  text: string,
-  columns: ColumnDefinition[]
-): Promise<ParsedTransaction[]> {
-  const transactions: ParsedTransaction[] = [];
-  const lines = text.split("\n");
-  const pattern = BANK_PATTERNS.generic;
+  layouts: PageLayout[],
+  columns: ColumnDefinition[],
+  profile: BankProfile,
+  statementPeriod: string,
+  { signal, onProgress, merchantAI }: ParseOptions = {},
+  aiTransactions?: RawTransaction[]
+): Promise<{
+  transactions: ParsedTransaction[];
+  dateOrder?: DateOrder;
+  currency?: string;
+  crossCheck?: CrossCheckReport;
+  detailFailure?: string;
+}> {
+  const lines = layouts.flatMap((layout) =>
+    layout.rows.map((row) => row.text)
+  );
+
+  let rawTransactions = extractTransactionsByColumns(
+    layouts,
+    columns,
+    profile.amountFormat
+  );
+  if (rawTransactions.length === 0) {
+    rawTransactions = parseTransactionsByPattern(lines, profile);
+  }
+  if (rawTransactions.length === 0) {
+    rawTransactions = parseTransactionsAlternative(lines, profile);
+  }
+  onProgress?.({ stage: "transactions-parsed", count: rawTransactions.length });
+
+  // Both extractions share one date order so their dates compare equal
+  const dates = createDateResolver(
+    [...rawTransactions, ...(aiTransactions || [])].map((raw) => raw.date),
+    { order: profile.dateFormat.order, period: statementPeriod }
+  );
+  const comparable = (raw: RawTransaction) => ({
+    date: dates.resolve(raw.date).date ?? raw.date,
+    description: raw.description,
+    amount: raw.amount,
+  });
+
+  let crossCheck: CrossCheckReport | undefined;
+  let checks: TransactionCrossCheck[] = [];
+  if (aiTransactions && rawTransactions.length === 0) {
+    rawTransactions = aiTransactions;
+    crossCheck = {
+      source: "ai",
+      matched: 0,
+      amountMismatches: 0,
+      dateMismatches: 0,
+      missingFromAI: 0,
+      missingFromParser: [],
+    };
+  } else if (aiTransactions) {
+    const result = reconcileTransactions(
+      rawTransactions.map(comparable),
+      aiTransactions.map(comparable)
+    );
+    crossCheck = result.report;
+    checks = result.checks;
+  }
+
+  // The user's rules come first; only what they leave uncategorized goes
+  // to AI or the built-in rules
+  const rules = await getCategoryRules();
+  const outcomes = rawTransactions.map((raw) =>
+    applyCategoryRules(rules, {
+      description: raw.description.trim(),
+      amount: Math.abs(raw.amount),
+      type: raw.amount < 0 ? "debit" : "credit",
+    })
+  );
+  const pending = rawTransactions
+    .map((_, index) => index)
+    .filter((index) => !outcomes[index]?.category);
+  const results = await categorizeDescriptions(
+    pending.map((index) => rawTransactions[index].description.trim()),
+    {
+      signal,
+      onProgress: (done, total) =>
+        onProgress?.({ stage: "categorizing", done, total }),
+    }
+  );
+  const categories = new Map<number, CategoryResult>();
+  pending.forEach((index, n) => categories.set(index, results[n]));
+
+  const { details, failureReason: detailFailure } =
+    await extractTransactionDetails(
+      rawTransactions.map((raw) => raw.description.trim()),
+      { useAI: merchantAI, signal }
+    );
+
+  const transactions = rawTransactions.map((raw, index) => {
+    const { date, issue } = dates.resolve(raw.date);
+    if (issue) {
+      console.warn(`Could not resolve date "${raw.date}": ${issue}`);
+    }
+
+    const outcome = outcomes[index];
+    const description = raw.description.trim();
+    const category: CategoryResult | undefined = outcome?.category
+      ? { category: outcome.category, confidence: USER_RULE_CONFIDENCE }
+      : categories.get(index);
+    // Rule-categorized rows skip AI, so the built-in rules stand in for
+    // the category to restore if the rule goes away
+    const categoryBeforeRules = outcome?.category
+      ? fallbackCategory(description)
+      : undefined;
+
+    const transaction: ParsedTransaction = {
+      ...details[index],
+      date: date ?? raw.date,
+      dateIssue: issue,
+      description: outcome?.description ?? description,
+      originalDescription: outcome?.description ? description : undefined,
+      amount: Math.abs(raw.amount),
+      balance: raw.balance,
+      type: raw.amount < 0 ? "debit" : "credit",
+      category: category?.category,
+      confidence: category?.confidence,
+      categoryFailure: category?.failureReason,
+      categoryBeforeRules,
+      tags: outcome?.tags,
+      ruleIds: outcome?.ruleIds,
+      crossCheck: checks[index],
+    };
+    return transaction;
+  });
+
+  return {
+    transactions: sortByDate(transactions),
+    dateOrder: dates.order,
+    currency: mostCommon(rawTransactions.map((raw) => raw.currency)),
+    crossCheck,
+    detailFailure,
+  };
+}
+
+function categorizationFailures(
+  transactions: ParsedTransaction[]
+): AIFailure[] {
+  const failed = transactions.filter((t) => t.categoryFailure);
+  if (failed.length === 0) return [];
+
+  const reasons = Array.from(new Set(failed.map((t) => t.categoryFailure)));
+  return [
+    {
+      task: "categorization",
+      reason: `${failed.length} of ${
+        transactions.length
+      } transactions used rule-based categories: ${reasons.join("; ")}`,
+    },
+  ];
+}
+
+function mostCommon(values: Array<string | undefined>): string | undefined {
+  const counts = new Map<string, number>();
+  for (const value of values) {
+    if (value) counts.set(value, (counts.get(value) || 0) + 1);
+  }
+  return [...counts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0];
+}
+
+function parseTransactionsByPattern(
+  lines: string[],
+  profile: BankProfile
+): RawTransaction[] {
+  const transactions: RawTransaction[] = [];
 
   for (const line of lines) {
-    const match = line.match(pattern.transactionPattern);
+    const match = line.match(profile.transactionPattern);
     if (match) {
       const [, date, description, amount, balance] = match;
 
@@ -167,212 +587,72 @@ async function parseTransactions(
         continue;
       }
 
-      const cleanAmountStr = amount.replace(/[\$,]/g, "");
-      const cleanAmount = parseFloat(cleanAmountStr);
-      const cleanBalance = balance
-        ? parseFloat(balance.replace(/[\$,]/g, ""))
+      const parsedAmount = parseAmount(amount, profile.amountFormat);
+      const parsedBalance = balance
+        ? parseAmount(balance, profile.amountFormat)
         : undefined;
 
-      if (!isNaN(cleanAmount)) {
-        let categoryInfo: { category: string; confidence: number } = {
-          category: "Other",
-          confidence: 0.5,
-        };
-        try {
-          categoryInfo = await categorizeTransactionAI(description);
-        } catch (error) {
-          console.warn(
-            `AI categorization failed for "${description}", using fallback`,
-            error
-          );
-          categoryInfo.category = categorizeTransaction(description);
-        }
-
+      if (parsedAmount) {
         transactions.push({
-          date: normalizeDate(date),
-          description: description.trim(),
-          amount: Math.abs(cleanAmount),
-          balance: cleanBalance,
-          type: cleanAmount < 0 ? "debit" : "credit",
-          category: categoryInfo.category,
-          confidence: categoryInfo.confidence,
+          date,
+          description,
+          amount: parsedAmount.value,
+          balance: parsedBalance?.value,
+          currency: parsedAmount.currency,
         });
       }
     }
   }
 
-  if (transactions.length === 0) {
-    return parseTransactionsAlternative(text);
-  }
-
-  return transactions.sort(
-    (a, b) => new Date(a.date).getTime() - new Date(b.date).getTime()
-  );
+  return transactions;
 }
 
-async function parseTransactionsAlternative(text: string): ParsedTransaction[] {
-  const transactions: ParsedTransaction[] = [];
-  const lines = text.split("\n");
+function parseTransactionsAlternative(
+  lines: string[],
+  profile: BankProfile
+): RawTransaction[] {
+  const transactions: RawTransaction[] = [];
 
   for (let i = 0; i < lines.length; i++) {
     const line = lines[i].trim();
-    const dateMatch = line.match(/(\d{1,2}[\/\-]\d{1,2}[\/\-]\d{2,4})/);
+    const dateMatch = line.match(new RegExp(`(${DATE_PATTERN_SOURCE})`, "i"));
     if (dateMatch) {
       const date = dateMatch[1];
       let description = "";
       let amount = 0;
       let balance: number | undefined;
+      let currency: string | undefined;
 
       for (let j = 0; j < 3 && i + j < lines.length; j++) {
-        const currentLine = lines[i + j];
-        const amountMatch = currentLine.match(/([\-\$]?[\d,]+\.[\d]{2})/g);
-
-        if (amountMatch && amountMatch.length > 0) {
-          const amountStr = amountMatch[0].replace(/[\$,]/g, "");
-          amount = parseFloat(amountStr);
-          if (amountMatch.length > 1) {
-            const balanceStr = amountMatch[1].replace(/[\$,]/g, "");
-            balance = parseFloat(balanceStr);
+        const currentLine = lines[i + j].replace(dateMatch[0], "");
+        const amounts = findAmounts(currentLine, profile.amountFormat);
+
+        if (amounts.length > 0) {
+          amount = amounts[0].value;
+          currency = amounts[0].currency;
+          if (amounts.length > 1) {
+            balance = amounts[1].value;
           }
-          description = currentLine
-            .replace(/([\-$]?[\d,]+\.[\d]{2})/g, "")
-            .replace(dateMatch[0], "")
+          description = amounts
+            .reduce((text, found) => text.replace(found.text, ""), currentLine)
             .trim();
           break;
         } else {
-          description += " " + currentLine.replace(dateMatch[0], "").trim();
+          description += " " + currentLine.trim();
         }
       }
 
-      if (!isNaN(amount) && amount !== 0 && description.trim()) {
-        let categoryInfo: { category: string; confidence: number } = {
-          category: "Other",
-          confidence: 0.5,
-        };
-        try {
-          categoryInfo = await categorizeTransactionAI(description);
-        } catch (error) {
-          console.warn(
-            `AI categorization failed for "${description}", using fallback`,
-            error
-          );
-          categoryInfo.category = categorizeTransaction(description);
-        }
-
-        transactions.push({
-          date: normalizeDate(date),
-          description: description.trim(),
-          amount: Math.abs(amount),
-          balance,
-          type: amount < 0 ? "debit" : "credit",
-          category: categoryInfo.category,
-          confidence: categoryInfo.confidence,
-        });
+      if (amount !== 0 && description.trim()) {
+        transactions.push({ date, description, amount, balance, currency });
       }
     }
   }
 
-  return transactions.sort(
-    (a, b) => new Date(a.date).getTime() - new Date(b.date).getTime()
-  );
-}
-
-function normalizeDate(dateStr: string): string {
-  try {
-    const date = new Date(dateStr);
-    if (!isNaN(date.getTime())) {
-      return date.toISOString().split("T")[0];
-    }
-
-    const parts = dateStr.split(/[\/\-]/);
-    if (parts.length === 3) {
-      let month: number, day: number, year: number;
-      let yearPart = parseInt(parts[2]);
-      if (yearPart < 100) {
-        yearPart += yearPart < 50 ? 2000 : 1900;
-      }
-      month = parseInt(parts[0]) - 1;
-      day = parseInt(parts[1]);
-      year = yearPart;
-
-      const parsedDate = new Date(year, month, day);
-      if (!isNaN(parsedDate.getTime())) {
-        return parsedDate.toISOString().split("T")[0];
-      }
-    }
-  } catch (error) {
-    console.warn(`Failed to normalize date: ${dateStr}`, error);
-  }
-  return dateStr;
+  return transactions;
 }
 
-function categorizeTransaction(description: string): string {
-  const desc = description.toLowerCase();
-  if (
-    desc.includes("deposit") ||
-    desc.includes("salary") ||
-    desc.includes("payroll") ||
-    desc.includes("direct dep")
-  ) {
-    return "Income";
-  } else if (
-    desc.includes("grocery") ||
-    desc.includes("food") ||
-    desc.includes("restaurant") ||
-    desc.includes("dining")
-  ) {
-    return "Food & Dining";
-  } else if (
-    desc.includes("gas") ||
-    desc.includes("fuel") ||
-    desc.includes("transport") ||
-    desc.includes("uber") ||
-    desc.includes("lyft")
-  ) {
-    return "Transportation";
-  } else if (desc.includes("atm") || desc.includes("withdrawal")) {
-    return "Cash & ATM";
-  } else if (desc.includes("transfer")) {
-    return "Transfers";
-  } else if (desc.includes("fee") || desc.includes("charge")) {
-    return "Fees & Charges";
-  } else if (
-    desc.includes("payment") ||
-    desc.includes("bill") ||
-    desc.includes("utility") ||
-    desc.includes("electric") ||
-    desc.includes("water") ||
-    desc.includes("internet")
-  ) {
-    return "Bills & Utilities";
-  } else if (
-    desc.includes("shopping") ||
-    desc.includes("store") ||
-    desc.includes("amazon") ||
-    desc.includes("walmart") ||
-    desc.includes("target")
-  ) {
-    return "Shopping";
-  } else if (
-    desc.includes("medical") ||
-    desc.includes("pharmacy") ||
-    desc.includes("doctor") ||
-    desc.includes("hospital")
-  ) {
-    return "Healthcare";
-  }
-  return "Other";
-}
-
-function extractStatementPeriod(text: string): string {
-  const periodPatterns = [
-    /Statement\s+Period[:\s]+(.+?)(?:\n|$)/i,
-    /Period[:\s]+(.+?)(?:\n|$)/i,
-    /From\s+(\d{1,2}\/\d{1,2}\/\d{2,4})\s+to\s+(\d{1,2}\/\d{1,2}\/\d{2,4})/i,
-    /(\w+\s+\d{1,2},?\s+\d{4})\s+through\s+(\w+\s+\d{1,2},?\s+\d{4})/i,
-  ];
-
-  for (const pattern of periodPatterns) {
+function extractStatementPeriod(text: string, profile: BankProfile): string {
+  for (const pattern of profile.statementPeriodPatterns) {
     const match = text.match(pattern);
     if (match) {
       return match[1] + (match[2] ? ` - ${match[2]}` : "");
@@ -381,46 +661,41 @@ function extractStatementPeriod(text: string): string {
   return "Unknown Period";
 }
 
-function extractBalances(text: string): {
+function balancePattern(label: string): RegExp {
+  const escaped = label
+    .replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+    .replace(/\s+/g, "\\s+");
+  return new RegExp(`${escaped}[:\\s]+(${AMOUNT_PATTERN_SOURCE})`, "i");
+}
+
+function extractBalances(
+  text: string,
+  profile: BankProfile
+): {
   openingBalance?: number;
   closingBalance?: number;
 } {
-  const openingPatterns = [
-    /Beginning\s+Balance[:\s]+([\$\d,\.]+)/i,
-    /Opening\s+Balance[:\s]+([\$\d,\.]+)/i,
-    /Previous\s+Balance[:\s]+([\$\d,\.]+)/i,
-    /Starting\s+Balance[:\s]+([\$\d,\.]+)/i,
-  ];
-
-  const closingPatterns = [
-    /Ending\s+Balance[:\s]+([\$\d,\.]+)/i,
-    /Closing\s+Balance[:\s]+([\$\d,\.]+)/i,
-    /Current\s+Balance[:\s]+([\$\d,\.]+)/i,
-    /Final\s+Balance[:\s]+([\$\d,\.]+)/i,
-  ];
+  const openingPatterns = profile.balanceLabels.opening.map(balancePattern);
+  const closingPatterns = profile.balanceLabels.closing.map(balancePattern);
 
   let openingBalance: number | undefined;
   let closingBalance: number | undefined;
 
   for (const pattern of openingPatterns) {
     const match = text.match(pattern);
-    if (match) {
-      const balance = parseFloat(match[1].replace(/[\$,]/g, ""));
-      if (!isNaN(balance)) {
-        openingBalance = balance;
-        break;
-      }
+    const balance = match && parseAmount(match[1], profile.amountFormat);
+    if (balance) {
+      openingBalance = balance.value;
+      break;
     }
   }
 
   for (const pattern of closingPatterns) {
     const match = text.match(pattern);
-    if (match) {
-      const balance = parseFloat(match[1].replace(/[\$,]/g, ""));
-      if (!isNaN(balance)) {
-        closingBalance = balance;
-        break;
-      }
+    const balance = match && parseAmount(match[1], profile.amountFormat);
+    if (balance) {
+      closingBalance = balance.value;
+      break;
     }
   }
 
@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import { ExportOptions } from "./excelExporter";
+import { ParsedTransaction } from "./pdfParser";
+import { createQif } from "./qifExporter";
+
+const options: ExportOptions = {
+  includeCategories: true,
+  includeBalance: false,
+  dateFormat: "DD/MM/YYYY",
+  currency: "GBP",
+  groupByMonth: false,
+  includeSummary: false,
+};
+
+const transactions: ParsedTransaction[] = [
+  {
+    date: "2024-01-05",
+    description: "TESCO STORES",
+    amount: 12.3,
+    type: "debit",
+    category: "Groceries",
+  },
+  {
+    date: "2024-01-09",
+    description: "Salary",
+    amount: 1500,
+    type: "credit",
+  },
+];
+
+describe("createQif", () => {
+  it("writes one record per transaction, each ended by ^", () => {
+    expect(createQif(transactions, options)).toBe(
+      [
+        "!Type:Bank",
+        "D05/01/2024",
+        "T-12.30",
+        "PTESCO STORES",
+        "LFood & Dining:Groceries",
+        "^",
+        "D09/01/2024",
+        "T1500.00",
+        "PSalary",
+        "^",
+        "",
+      ].join("\n")
+    );
+  });
+
+  it("uses the account type in the header", () => {
+    expect(createQif(transactions, options, { accountType: "CCard" })).toMatch(
+      /^!Type:CCard\n/
+    );
+  });
+
+  it("writes ISO dates the US way", () => {
+    const qif = createQif(transactions, {
+      ...options,
+      dateFormat: "YYYY-MM-DD",
+    });
+    expect(qif).toContain("D01/05/2024\n");
+    expect(qif).toContain("D01/09/2024\n");
+  });
+
+  it("leaves out transactions without a date", () => {
+    const qif = createQif(
+      [...transactions, { ...transactions[0], date: "Unknown" }],
+      options
+    );
+    expect(qif.match(/\^/g)).toHaveLength(2);
+    expect(qif).not.toContain("Unknown");
+  });
+});
@@ -0,0 +1,86 @@
+import { BankStatementData, ParsedTransaction } from "./pdfParser";
+import {
+  ExportOptions,
+  exportFilename,
+  ExportResult,
+  formatDate,
+  prepareExport,
+} from "./excelExporter";
+import { parentCategory } from "./categoryTaxonomy";
+import { downloadFile } from "./download";
+
+export interface QifOptions {
+  accountType: "Bank" | "CCard";
+}
+
+export const DEFAULT_QIF_OPTIONS: QifOptions = {
+  accountType: "Bank",
+};
+
+// Transactions whose date never resolved cannot be written
+function hasDate(transaction: ParsedTransaction): boolean {
+  return /^\d{4}-\d{2}-\d{2}$/.test(transaction.date);
+}
+
+// One record per transaction, each ended by ^. Dates follow the chosen
+// format's day order; QIF readers only know the US and UK styles, so ISO
+// is written the US way.
+export function createQif(
+  transactions: ParsedTransaction[],
+  options: ExportOptions,
+  qif: QifOptions = DEFAULT_QIF_OPTIONS
+): string {
+  const dated = transactions.filter(hasDate);
+  const dateFormat =
+    options.dateFormat === "DD/MM/YYYY" ? "DD/MM/YYYY" : "MM/DD/YYYY";
+
+  const lines = [`!Type:${qif.accountType}`];
+  dated.forEach((transaction) => {
+    const amount =
+      transaction.type === "credit" ? transaction.amount : -transaction.amount;
+    lines.push(
+      `D${formatDate(transaction.date, dateFormat)}`,
+      `T${amount.toFixed(2)}`,
+      `P${singleLine(transaction.description)}`
+    );
+    if (options.includeCategories && transaction.category) {
+      lines.push(`L${qifCategory(transaction.category)}`);
+    }
+    lines.push("^");
+  });
+  return lines.join("\n") + "\n";
+}
+
+// Subcategories are written Parent:Child. QIF reads : and / in a name as
+// subcategory and class separators, so they are replaced.
+function qifCategory(category: string): string {
+  const clean = (name: string) => singleLine(name).replace(/[:/]/g, "-");
+  const parent = parentCategory(category);
+  return parent !== category
+    ? `${clean(parent)}:${clean(category)}`
+    : clean(category);
+}
+
+function singleLine(text: string): string {
+  return text.replace(/\s*[\r\n]+\s*/g, " ");
+}
+
+// Export one statement, or several combined into one account
+export async function exportToQif(
+  statements: BankStatementData | BankStatementData[],
+  options: ExportOptions
+): Promise<ExportResult> {
+  const list = Array.isArray(statements) ? statements : [statements];
+  if (list.length === 0) return { skippedTransactions: 0 };
+
+  const qif = { ...DEFAULT_QIF_OPTIONS, ...options.qif };
+  const data = await prepareExport(list, options);
+  downloadFile(
+    createQif(data.transactions, options, qif),
+    exportFilename(data, "qif"),
+    "application/qif"
+  );
+  return {
+    skippedTransactions: data.transactions.filter((t) => !hasDate(t)).length,
+  };
+}
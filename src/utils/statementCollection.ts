@@ -0,0 +1,36 @@
+import { BankStatementData } from "./pdfParser";
+import { sortByDate } from "./dateParser";
+
+// Parsed statements keyed by the id of the uploaded file they came from
+export type StatementCollection = Record<string, BankStatementData>;
+
+function unique(values: string[]): string[] {
+  return Array.from(new Set(values.filter(Boolean)));
+}
+
+// Merge several statements into one for previewing and exporting. Each
+// transaction keeps the name of the file it came from; balances are left
+// out since they belong to different accounts or periods.
+export function combineStatements(
+  statements: BankStatementData[]
+): BankStatementData {
+  if (statements.length === 1) return statements[0];
+
+  const bankNames = unique(statements.map((s) => s.bankName));
+  const transactions = sortByDate(
+    statements.flatMap((s) =>
+      s.transactions.map((t) => ({ ...t, sourceFile: s.sourceFile }))
+    )
+  );
+
+  return {
+    bankName: bankNames.length === 1 ? bankNames[0] : "Multiple Banks",
+    bankProfileId: "combined",
+    accountNumber: unique(statements.map((s) => s.accountNumber)).join(", "),
+    statementPeriod: unique(statements.map((s) => s.statementPeriod)).join(
+      "; "
+    ),
+    transactions,
+    aiFailures: statements.flatMap((s) => s.aiFailures || []),
+  };
+}
@@ -0,0 +1,99 @@
+import { describe, expect, it } from "vitest";
+import type { BankStatementData, ParsedTransaction } from "./pdfParser";
+import { validateStatement } from "./statementValidator";
+
+function statement(
+  transactions: ParsedTransaction[],
+  balances: Partial<BankStatementData> = {}
+): BankStatementData {
+  return {
+    bankName: "Test Bank",
+    bankProfileId: "generic",
+    accountNumber: "12345678",
+    statementPeriod: "January 2024",
+    transactions,
+    ...balances,
+  };
+}
+
+const TRANSACTIONS: ParsedTransaction[] = [
+  {
+    date: "2024-01-02",
+    description: "Salary",
+    amount: 500,
+    balance: 1500,
+    type: "credit",
+  },
+  {
+    date: "2024-01-03",
+    description: "Groceries",
+    amount: 45.5,
+    balance: 1454.5,
+    type: "debit",
+  },
+];
+
+describe("validateStatement", () => {
+  it("reconciles running balances and totals", () => {
+    const { validation } = validateStatement(
+      statement(TRANSACTIONS, { openingBalance: 1000, closingBalance: 1454.5 })
+    );
+    expect(validation).toMatchObject({
+      status: "reconciled",
+      checkedRows: 2,
+      totalCredits: 500,
+      totalDebits: 45.5,
+      closingDifference: 0,
+    });
+  });
+
+  it("flags rows whose balance does not follow", () => {
+    const result = validateStatement(
+      statement([TRANSACTIONS[0], { ...TRANSACTIONS[1], amount: 40 }], {
+        openingBalance: 1000,
+        closingBalance: 1454.5,
+      })
+    );
+    expect(result.validation.status).toBe("mismatch");
+    expect(result.transactions[1].validation).toEqual({
+      flags: ["balance-mismatch"],
+      expectedBalance: 1460,
+    });
+  });
+
+  it("corrects types whose sign was lost", () => {
+    const result = validateStatement(
+      statement([{ ...TRANSACTIONS[0], type: "debit" }, TRANSACTIONS[1]], {
+        openingBalance: 1000,
+        closingBalance: 1454.5,
+      })
+    );
+    expect(result.transactions[0].type).toBe("credit");
+    expect(result.transactions[0].validation?.flags).toEqual([
+      "type-corrected",
+    ]);
+    expect(result.validation).toMatchObject({
+      status: "reconciled",
+      correctedTypes: 1,
+    });
+  });
+
+  it("does not report totals it could not check as reconciled", () => {
+    for (const balances of [{ openingBalance: 1000 }, {}]) {
+      const { validation } = validateStatement(
+        statement(TRANSACTIONS, balances)
+      );
+      expect(validation.status).toBe("partial");
+      expect(validation.messages).toEqual([
+        "Opening or closing balance not found; totals could not be reconciled",
+      ]);
+    }
+  });
+
+  it("cannot verify a statement without balances", () => {
+    const { validation } = validateStatement(
+      statement(TRANSACTIONS.map((t) => ({ ...t, balance: undefined })))
+    );
+    expect(validation.status).toBe("unverifiable");
+  });
+});
@@ -0,0 +1,160 @@
+import type { BankStatementData, ParsedTransaction } from "./pdfParser";
+
+export type ValidationFlag =
+  | "balance-mismatch"
+  | "type-corrected"
+  | "date-unresolved";
+
+export interface TransactionValidation {
+  flags: ValidationFlag[];
+  // Balance implied by the previous row and this row's amount
+  expectedBalance?: number;
+}
+
+export interface ValidationReport {
+  // "partial" when the running balances match but the totals could not be
+  // checked for lack of an opening or closing balance
+  status: "reconciled" | "partial" | "mismatch" | "unverifiable";
+  checkedRows: number;
+  mismatchedRows: number;
+  correctedTypes: number;
+  totalCredits: number;
+  totalDebits: number;
+  // openingBalance + credits − debits, compared against closingBalance
+  expectedClosingBalance?: number;
+  closingDifference?: number;
+  messages: string[];
+}
+
+// Half a cent, to absorb floating point noise
+const TOLERANCE = 0.005;
+
+function signed(transaction: ParsedTransaction): number {
+  return transaction.type === "credit"
+    ? transaction.amount
+    : -transaction.amount;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+// Check every row's running balance against the previous balance plus the
+// row's amount, fix credit/debit types whose sign was lost, and reconcile
+// opening balance + credits − debits against the closing balance
+export function validateStatement(
+  data: BankStatementData
+): BankStatementData & { validation: ValidationReport } {
+  let previousBalance = data.openingBalance;
+  let checkedRows = 0;
+  let mismatchedRows = 0;
+  let correctedTypes = 0;
+
+  const transactions = data.transactions.map((original) => {
+    let transaction = original;
+    const flags: ValidationFlag[] = [];
+    let expectedBalance: number | undefined;
+
+    if (transaction.dateIssue) {
+      flags.push("date-unresolved");
+    }
+
+    if (transaction.balance !== undefined && previousBalance !== undefined) {
+      checkedRows++;
+      const delta = transaction.balance - previousBalance;
+      if (Math.abs(delta - signed(transaction)) > TOLERANCE) {
+        if (Math.abs(delta + signed(transaction)) <= TOLERANCE) {
+          transaction = {
+            ...transaction,
+            type: transaction.type === "credit" ? "debit" : "credit",
+          };
+          flags.push("type-corrected");
+          correctedTypes++;
+        } else {
+          expectedBalance = round(previousBalance + signed(transaction));
+          flags.push("balance-mismatch");
+          mismatchedRows++;
+        }
+      }
+    }
+
+    if (transaction.balance !== undefined) {
+      previousBalance = transaction.balance;
+    } else if (previousBalance !== undefined) {
+      previousBalance += signed(transaction);
+    }
+
+    return { ...transaction, validation: { flags, expectedBalance } };
+  });
+
+  const totalCredits = round(
+    transactions
+      .filter((t) => t.type === "credit")
+      .reduce((sum, t) => sum + t.amount, 0)
+  );
+  const totalDebits = round(
+    transactions
+      .filter((t) => t.type === "debit")
+      .reduce((sum, t) => sum + t.amount, 0)
+  );
+
+  const messages: string[] = [];
+  let expectedClosingBalance: number | undefined;
+  let closingDifference: number | undefined;
+
+  if (data.openingBalance !== undefined && data.closingBalance !== undefined) {
+    expectedClosingBalance = round(
+      data.openingBalance + totalCredits - totalDebits
+    );
+    closingDifference = round(data.closingBalance - expectedClosingBalance);
+    if (Math.abs(closingDifference) > TOLERANCE) {
+      messages.push(
+        `Opening balance + credits − debits is ${expectedClosingBalance.toFixed(
+          2
+        )}, but the statement closes at ${data.closingBalance.toFixed(2)}`
+      );
+    }
+  } else {
+    messages.push(
+      "Opening or closing balance not found; totals could not be reconciled"
+    );
+  }
+
+  if (mismatchedRows > 0) {
+    messages.push(
+      `${mismatchedRows} of ${checkedRows} running balances do not match`
+    );
+  }
+  if (correctedTypes > 0) {
+    messages.push(
+      `${correctedTypes} credit/debit types corrected from balance changes`
+    );
+  }
+
+  const totalsFailed =
+    closingDifference !== undefined && Math.abs(closingDifference) > TOLERANCE;
+  const status: ValidationReport["status"] =
+    mismatchedRows > 0 || totalsFailed
+      ? "mismatch"
+      : expectedClosingBalance !== undefined
+      ? "reconciled"
+      : checkedRows > 0
+      ? "partial"
+      : "unverifiable";
+
+  return {
+    ...data,
+    transactions,
+    validation: {
+      status,
+      checkedRows,
+      mismatchedRows,
+      correctedTypes,
+      totalCredits,
+      totalDebits,
+      expectedClosingBalance,
+      closingDifference,
+      messages,
+    },
+  };
+}
@@ -0,0 +1,131 @@
+import { describe, expect, it } from "vitest";
+import type { TextItem } from "pdfjs-dist/types/src/display/api";
+import {
+  buildPageLayout,
+  groupIntoRows,
+  PositionedText,
+  toPositionedText,
+} from "./textLayout";
+
+// A pdf.js text item at (x, y) in a 10pt font
+function textItem(str: string, x: number, y: number, width: number): TextItem {
+  return {
+    str,
+    dir: "ltr",
+    transform: [10, 0, 0, 10, x, y],
+    width,
+    height: 10,
+    fontName: "g_d0_f1",
+    hasEOL: false,
+  };
+}
+
+function rowTexts(items: PositionedText[]): string[][] {
+  return groupIntoRows(items).map((row) => row.cells.map((cell) => cell.text));
+}
+
+describe("toPositionedText", () => {
+  it("skips blank items and reads the position from the transform", () => {
+    const items = toPositionedText([
+      textItem("Date", 50, 700, 20),
+      textItem("  ", 75, 700, 5),
+      { ...textItem("Amount", 300, 700, 30), height: 0 },
+    ]);
+    expect(items).toEqual([
+      { str: "Date", x: 50, y: 700, width: 20, height: 10 },
+      { str: "Amount", x: 300, y: 700, width: 30, height: 10 },
+    ]);
+  });
+});
+
+describe("groupIntoRows", () => {
+  it("keeps items on a skewed baseline in one row", () => {
+    const items = toPositionedText([
+      textItem("01/05", 50, 700, 25),
+      textItem("Coffee", 120, 701.5, 30),
+      textItem("3.50", 300, 698.5, 20),
+      textItem("01/06", 50, 686, 25),
+    ]);
+    expect(rowTexts(items)).toEqual([["01/05", "Coffee", "3.50"], ["01/06"]]);
+  });
+
+  it("joins tight pieces into words and words into cells", () => {
+    const items = toPositionedText([
+      textItem("AMZN", 50, 700, 25),
+      textItem("MKTP", 76, 700, 25),
+      textItem("US", 104, 700, 10),
+      textItem("12.00", 130, 700, 25),
+    ]);
+    expect(rowTexts(items)).toEqual([["AMZNMKTP US", "12.00"]]);
+  });
+
+  it("splits cells at a wide gap", () => {
+    const items = toPositionedText([
+      textItem("Opening", 50, 700, 35),
+      textItem("balance", 88, 700, 35),
+      textItem("1,000.00", 300, 700, 40),
+    ]);
+    const [row] = groupIntoRows(items);
+    expect(row.text).toBe("Opening balance 1,000.00");
+    expect(row.cells.map((cell) => [cell.x0, cell.x1])).toEqual([
+      [50, 123],
+      [300, 340],
+    ]);
+  });
+});
+
+describe("layout thresholds", () => {
+  it("keeps a baseline half a font height away in the same row", () => {
+    expect(
+      rowTexts(
+        toPositionedText([
+          textItem("01/05", 50, 700, 25),
+          textItem("3.50", 300, 695, 20),
+        ])
+      )
+    ).toEqual([["01/05", "3.50"]]);
+    expect(
+      rowTexts(
+        toPositionedText([
+          textItem("01/05", 50, 700, 25),
+          textItem("3.50", 300, 694.5, 20),
+        ])
+      )
+    ).toEqual([["01/05"], ["3.50"]]);
+  });
+
+  it("adds a space above the word gap and splits above the cell gap", () => {
+    const row = (gaps: number[]) =>
+      rowTexts(
+        toPositionedText(
+          ["A", "B", "C"].map((str, index) =>
+            textItem(
+              str,
+              50 +
+                index * 10 +
+                gaps.slice(0, index).reduce((sum, gap) => sum + gap, 0),
+              700,
+              10
+            )
+          )
+        )
+      )[0];
+    expect(row([1.5, 2])).toEqual(["AB C"]);
+    expect(row([12, 12.5])).toEqual(["A B", "C"]);
+  });
+});
+
+describe("buildPageLayout", () => {
+  it("clusters aligned cells into column bands", () => {
+    const items = toPositionedText(
+      [700, 686, 672].flatMap((y) => [
+        textItem("01/05", 50, y, 25),
+        textItem("Payee", 120, y, 30),
+        textItem("10.00", 300, y, 25),
+      ])
+    );
+    expect(buildPageLayout(1, items).columns.map((band) => band.x0)).toEqual([
+      50, 120, 300,
+    ]);
+  });
+});
@@ -0,0 +1,170 @@
+import type {
+  TextItem,
+  TextMarkedContent,
+} from "pdfjs-dist/types/src/display/api";
+
+// A piece of text with its position on the page, in PDF user space
+// (origin at the bottom-left corner, y grows upwards).
+export interface PositionedText {
+  str: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface TextCell {
+  text: string;
+  x0: number;
+  x1: number;
+  items: PositionedText[];
+}
+
+export interface TextRow {
+  y: number;
+  height: number;
+  text: string;
+  cells: TextCell[];
+  items: PositionedText[];
+}
+
+export interface ColumnBand {
+  x0: number;
+  x1: number;
+  support: number;
+}
+
+export interface PageLayout {
+  pageNumber: number;
+  rows: TextRow[];
+  columns: ColumnBand[];
+}
+
+// Items whose baselines differ by less than this fraction of the font
+// height are considered to sit on the same visual row
+const ROW_TOLERANCE = 0.5;
+// Horizontal gap (in font heights) above which two items are separate words
+const WORD_GAP = 0.15;
+// Horizontal gap (in font heights) above which two items are separate cells
+const CELL_GAP = 1.2;
+
+function isTextItem(item: TextItem | TextMarkedContent): item is TextItem {
+  return "str" in item;
+}
+
+// Convert pdf.js text content items into positioned text
+export function toPositionedText(
+  items: Array<TextItem | TextMarkedContent>
+): PositionedText[] {
+  return items.filter(isTextItem).flatMap((item) => {
+    if (!item.str.trim()) return [];
+    const [a, b, c, d, e, f] = item.transform;
+    const height = item.height || Math.hypot(c, d) || Math.hypot(a, b) || 1;
+    return [{ str: item.str, x: e, y: f, width: item.width, height }];
+  });
+}
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+function buildCells(items: PositionedText[], height: number): TextCell[] {
+  const cells: TextCell[] = [];
+  let current: TextCell | null = null;
+
+  for (const item of items) {
+    const gap = current ? item.x - current.x1 : Infinity;
+    if (current && gap <= CELL_GAP * height) {
+      current.text += (gap > WORD_GAP * height ? " " : "") + item.str;
+      current.x1 = Math.max(current.x1, item.x + item.width);
+      current.items.push(item);
+    } else {
+      current = {
+        text: item.str,
+        x0: item.x,
+        x1: item.x + item.width,
+        items: [item],
+      };
+      cells.push(current);
+    }
+  }
+
+  return cells.map((cell) => ({
+    ...cell,
+    text: cell.text.replace(/\s+/g, " ").trim(),
+  }));
+}
+
+// Group positioned text into visual rows, top of the page first
+export function groupIntoRows(items: PositionedText[]): TextRow[] {
+  const sorted = [...items].sort((a, b) => b.y - a.y || a.x - b.x);
+  const groups: PositionedText[][] = [];
+
+  for (const item of sorted) {
+    const group = groups[groups.length - 1];
+    if (group) {
+      const rowY = median(group.map((i) => i.y));
+      const rowHeight = median(group.map((i) => i.height));
+      const tolerance = ROW_TOLERANCE * Math.min(rowHeight, item.height);
+      if (Math.abs(item.y - rowY) <= tolerance) {
+        group.push(item);
+        continue;
+      }
+    }
+    groups.push([item]);
+  }
+
+  return groups.map((group) => {
+    const rowItems = [...group].sort((a, b) => a.x - b.x);
+    const height = median(rowItems.map((i) => i.height));
+    const cells = buildCells(rowItems, height);
+    return {
+      y: median(rowItems.map((i) => i.y)),
+      height,
+      text: cells.map((cell) => cell.text).join(" "),
+      cells,
+      items: rowItems,
+    };
+  });
+}
+
+// Cluster the cells of multi-cell rows into column bands. Cells that
+// overlap horizontally belong to the same column, so left-, right- and
+// centre-aligned columns all collapse into a single band.
+export function clusterColumns(rows: TextRow[]): ColumnBand[] {
+  const tableRows = rows.filter((row) => row.cells.length > 1);
+  if (tableRows.length === 0) return [];
+
+  const cells = tableRows
+    .flatMap((row) => row.cells)
+    .sort((a, b) => a.x0 - b.x0);
+  const bands: ColumnBand[] = [];
+
+  for (const cell of cells) {
+    const band = bands[bands.length - 1];
+    if (band && cell.x0 <= band.x1) {
+      band.x1 = Math.max(band.x1, cell.x1);
+      band.support++;
+    } else {
+      bands.push({ x0: cell.x0, x1: cell.x1, support: 1 });
+    }
+  }
+
+  const minSupport = Math.max(2, Math.ceil(tableRows.length * 0.1));
+  return bands.filter((band) => band.support >= minSupport);
+}
+
+export function buildPageLayout(
+  pageNumber: number,
+  items: PositionedText[]
+): PageLayout {
+  const rows = groupIntoRows(items);
+  return { pageNumber, rows, columns: clusterColumns(rows) };
+}
+
+export function layoutToText(layout: PageLayout): string {
+  return layout.rows.map((row) => row.text).join("\n");
+}
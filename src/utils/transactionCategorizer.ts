@@ -0,0 +1,235 @@
+import { callTaskAI, describeAIFailure, isAIEnabled } from "./aiProviders";
+import {
+  CachedCategory,
+  cacheCategories,
+  getCachedCategories,
+} from "./categoryCache";
+import { findCategory, mapToTaxonomy, taxonomyPaths } from "./categoryTaxonomy";
+
+export interface CategoryResult extends CachedCategory {
+  // Set when AI categorization failed and the category came from rules
+  failureReason?: string;
+}
+
+export interface CategorizeOptions {
+  signal?: AbortSignal;
+  // Called after each batch with the number of descriptions resolved so far
+  onProgress?: (done: number, total: number) => void;
+}
+
+// Descriptions sent per AI request
+const BATCH_SIZE = 40;
+
+// Rule-based result, used offline and when AI fails
+const RULE_CONFIDENCE = 0.5;
+
+// Reduce a description to the part that identifies the merchant, so
+// "AMAZON MKTPLACE 12/03 #4821" and "Amazon Mktplace 02/04 #9913" share a
+// cache entry
+export function normalizeDescription(description: string): string {
+  return description
+    .toLowerCase()
+    .replace(/\d{1,2}[/.-]\d{1,2}(?:[/.-]\d{2,4})?/g, " ")
+    .replace(/[#*x]*\d[\d\s-]*/g, " ")
+    .replace(/[^a-z&' ]+/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+// Rule-based category, mapped onto the taxonomy through its synonyms
+export function categorizeTransaction(description: string): string {
+  return mapToTaxonomy(keywordCategory(description));
+}
+
+// The built-in rules' category with the confidence they are given
+export function fallbackCategory(description: string): CategoryResult {
+  return {
+    category: categorizeTransaction(description),
+    confidence: RULE_CONFIDENCE,
+  };
+}
+
+function keywordCategory(description: string): string {
+  const desc = description.toLowerCase();
+  if (
+    desc.includes("deposit") ||
+    desc.includes("salary") ||
+    desc.includes("payroll") ||
+    desc.includes("direct dep")
+  ) {
+    return "Income";
+  } else if (
+    desc.includes("grocery") ||
+    desc.includes("food") ||
+    desc.includes("restaurant") ||
+    desc.includes("dining")
+  ) {
+    return "Food & Dining";
+  } else if (
+    desc.includes("gas") ||
+    desc.includes("fuel") ||
+    desc.includes("transport") ||
+    desc.includes("uber") ||
+    desc.includes("lyft")
+  ) {
+    return "Transportation";
+  } else if (desc.includes("atm") || desc.includes("withdrawal")) {
+    return "Cash & ATM";
+  } else if (desc.includes("transfer")) {
+    return "Transfers";
+  } else if (desc.includes("fee") || desc.includes("charge")) {
+    return "Fees & Charges";
+  } else if (
+    desc.includes("payment") ||
+    desc.includes("bill") ||
+    desc.includes("utility") ||
+    desc.includes("electric") ||
+    desc.includes("water") ||
+    desc.includes("internet")
+  ) {
+    return "Bills & Utilities";
+  } else if (
+    desc.includes("shopping") ||
+    desc.includes("store") ||
+    desc.includes("amazon") ||
+    desc.includes("walmart") ||
+    desc.includes("target")
+  ) {
+    return "Shopping";
+  } else if (
+    desc.includes("medical") ||
+    desc.includes("pharmacy") ||
+    desc.includes("doctor") ||
+    desc.includes("hospital")
+  ) {
+    return "Healthcare";
+  }
+  return "Other";
+}
+
+async function categorizeBatchAI(
+  descriptions: string[],
+  signal?: AbortSignal
+): Promise<Map<number, CategoryResult>> {
+  const parsed = await callTaskAI<
+    Array<{ id: number; category: string; confidence: number }>
+  >(
+    {
+      task: "categorization",
+      input: {
+        descriptions,
+        categories: taxonomyPaths().map(({ path }) => path),
+      },
+    },
+    { signal }
+  );
+
+  const results = new Map<number, CategoryResult>();
+  for (const entry of parsed) {
+    results.set(entry.id, {
+      category: mapToTaxonomy(entry.category),
+      confidence: entry.confidence,
+    });
+  }
+  return results;
+}
+
+// Categorize many descriptions at once. Descriptions are de-duplicated by
+// their normalized form, looked up in the local cache, and only the misses
+// are sent to the AI provider, many per request. Descriptions AI could not
+// categorize get rule-based categories, which are not cached.
+export async function categorizeDescriptions(
+  descriptions: string[],
+  { signal, onProgress }: CategorizeOptions = {}
+): Promise<CategoryResult[]> {
+  const keys = descriptions.map(
+    (d) => normalizeDescription(d) || d.trim().toLowerCase()
+  );
+  const representatives = new Map<string, string>();
+  keys.forEach((key, index) => {
+    if (!representatives.has(key)) {
+      representatives.set(key, descriptions[index]);
+    }
+  });
+
+  const resolved = new Map<string, CategoryResult>();
+  const failures = new Map<string, string>();
+  if (isAIEnabled()) {
+    // Entries cached before the taxonomy changed are asked again
+    const cached = await getCachedCategories([...representatives.keys()]);
+    cached.forEach((value, key) => {
+      const category = findCategory(value.category);
+      if (category) resolved.set(key, { ...value, category: category.name });
+    });
+
+    const misses = [...representatives.keys()].filter(
+      (key) => !resolved.has(key)
+    );
+    const total = representatives.size;
+    onProgress?.(resolved.size, total);
+
+    for (let start = 0; start < misses.length; start += BATCH_SIZE) {
+      signal?.throwIfAborted();
+      const batch = misses.slice(start, start + BATCH_SIZE);
+      try {
+        const results = await categorizeBatchAI(
+          batch.map((key) => representatives.get(key) || key),
+          signal
+        );
+        const fresh = new Map<string, CategoryResult>();
+        results.forEach((value, index) => {
+          if (batch[index] !== undefined) fresh.set(batch[index], value);
+        });
+        fresh.forEach((value, key) => resolved.set(key, value));
+        batch
+          .filter((key) => !fresh.has(key))
+          .forEach((key) => failures.set(key, "Missing from AI response"));
+        await cacheCategories(fresh);
+      } catch (error) {
+        signal?.throwIfAborted();
+        console.warn(
+          `AI categorization failed for ${batch.length} descriptions, using fallback`,
+          error
+        );
+        batch.forEach((key) => failures.set(key, describeAIFailure(error)));
+      }
+      onProgress?.(
+        total - misses.length + Math.min(start + BATCH_SIZE, misses.length),
+        total
+      );
+    }
+  }
+
+  return descriptions.map(
+    (description, index) =>
+      resolved.get(keys[index]) || {
+        ...fallbackCategory(description),
+        failureReason: failures.get(keys[index]),
+      }
+  );
+}
+
+async function retrainCategoryFromFeedback(
+  description: string,
+  correctCategory: string
+): Promise<string[]> {
+  return callTaskAI<string[]>({
+    task: "category-feedback",
+    input: { description, category: correctCategory },
+  });
+}
+
+export async function handleCategoryFeedback(
+  description: string,
+  correctCategory: string
+): Promise<{ keywords: string[]; failureReason?: string }> {
+  if (!isAIEnabled()) return { keywords: [] };
+  try {
+    return {
+      keywords: await retrainCategoryFromFeedback(description, correctCategory),
+    };
+  } catch (error) {
+    console.warn(`Failed to retrain category for "${description}"`, error);
+    return { keywords: [], failureReason: describeAIFailure(error) };
+  }
+}
@@ -3,4 +3,10 @@ import react from "@vitejs/plugin-react";
 
 export default defineConfig({
   plugins: [react()],
+  server: {
+    // The AI proxy from `npm run server`
+    proxy: {
+      "/api": "http://localhost:8787",
+    },
+  },
 });